@@ -7,6 +7,8 @@ export interface Result<K, V> {
     value?: V;
 }
 
+export type Merge<K, V> = (a: V, b: V, key: K) => V;
+
 export abstract class AVLTree<K, V> {
     protected constructor(public comparator: Comparator<K>) {
     }
@@ -19,6 +21,37 @@ export abstract class AVLTree<K, V> {
         return AVLTree.empty<K, V>(comparator).insert(key, value);
     }
 
+    /** Builds a balanced tree in O(n) from entries already in ascending order with unique keys */
+    static fromSorted<K, V>(entries: Iterable<[K, V]>, comparator: Comparator<K> = ascending): AVLTree<K, V> {
+        const sorted = Array.from(entries);
+        return build(sorted, 0, sorted.length, AVLTree.empty<K, V>(comparator));
+    }
+
+    /** Serialises as entries in ascending key order */
+    toJSON(): [K, V][] {
+        return Array.from(this.entries());
+    }
+
+    /** Inverse of toJSON; the comparator must order the keys the same way as the one used to serialise */
+    static fromJSON<K, V>(json: [K, V][], comparator: Comparator<K> = ascending): AVLTree<K, V> {
+        return AVLTree.fromSorted(json, comparator);
+    }
+
+    /** Entries from both trees, calling merge for keys present in both */
+    union(other: AVLTree<K, V>, merge: Merge<K, V> = (a, b) => b): AVLTree<K, V> {
+        return union(this, other, merge);
+    }
+
+    /** Entries whose keys are present in both trees, calling merge to pick the value */
+    intersection(other: AVLTree<K, V>, merge: Merge<K, V> = (a, b) => b): AVLTree<K, V> {
+        return intersection(this, other, merge);
+    }
+
+    /** Entries whose keys are not present in the other tree */
+    difference(other: AVLTree<K, any>): AVLTree<K, V> {
+        return difference(this, other);
+    }
+
     abstract readonly isEmpty: boolean;
 
     abstract insert(key: K, value: V): AVLTree<K, V>;
@@ -39,12 +72,50 @@ export abstract class AVLTree<K, V> {
 
     abstract readonly balance: number;
 
-    abstract keys(): Iterable<K>;
+    abstract readonly size: number;
+
+    * keys(): Iterable<K> {
+        for (const node of nodes(this)) yield node.key;
+    }
+
+    * values(): Iterable<V> {
+        for (const node of nodes(this)) yield node.value;
+    }
+
+    * entries(): Iterable<[K, V]> {
+        for (const node of nodes(this)) yield [node.key, node.value];
+    }
+
+    * entriesDescending(): Iterable<[K, V]> {
+        for (const node of nodes(this, true)) yield [node.key, node.value];
+    }
+
+    /** Greatest entry with a key less than or equal to the given key */
+    abstract floor(key: K): [K, V] | undefined;
+
+    /** Least entry with a key greater than or equal to the given key */
+    abstract ceiling(key: K): [K, V] | undefined;
+
+    /** Greatest entry with a key strictly less than the given key */
+    abstract lower(key: K): [K, V] | undefined;
+
+    /** Least entry with a key strictly greater than the given key */
+    abstract higher(key: K): [K, V] | undefined;
+
+    abstract first(): [K, V] | undefined;
 
-    abstract values(): Iterable<V>;
+    abstract last(): [K, V] | undefined;
 
-    abstract entries(): Iterable<[K,V]>;
+    /** Position of the key in ascending order, or -1 when it is missing */
+    abstract indexOf(key: K): number;
 
+    abstract at(index: number): [K, V] | undefined;
+
+    /** Entries from index (inclusive) to index (exclusive) without visiting the entries before them */
+    abstract slice(from?: number, to?: number): Iterable<[K, V]>;
+
+    /** Entries between from and to in ascending order, only visiting the subtrees that overlap the range */
+    abstract range(from: K, to: K, fromInclusive?: boolean, toInclusive?: boolean): Iterable<[K, V]>;
 }
 
 class Empty<K, V> extends AVLTree<K, V> {
@@ -55,6 +126,7 @@ class Empty<K, V> extends AVLTree<K, V> {
     readonly isEmpty = true;
     readonly height = 0;
     readonly balance = 0;
+    readonly size = 0;
 
     insert(key: K, value: V): AVLTree<K, V> {
         return new Node(this.comparator, key, value, this, this);
@@ -84,16 +156,44 @@ class Empty<K, V> extends AVLTree<K, V> {
         return '';
     }
 
-    * keys(): Iterable<K> {
-        return;
+    floor(key: K): [K, V] | undefined {
+        return undefined;
     }
 
-    * values(): Iterable<V> {
+    ceiling(key: K): [K, V] | undefined {
+        return undefined;
+    }
+
+    lower(key: K): [K, V] | undefined {
+        return undefined;
+    }
+
+    higher(key: K): [K, V] | undefined {
+        return undefined;
+    }
+
+    first(): [K, V] | undefined {
+        return undefined;
+    }
+
+    last(): [K, V] | undefined {
+        return undefined;
+    }
+
+    * range(from: K, to: K, fromInclusive: boolean = true, toInclusive: boolean = true): Iterable<[K, V]> {
         return;
     }
 
-    * entries(): Iterable<[K,V]> {
-        return [];
+    indexOf(key: K): number {
+        return -1;
+    }
+
+    at(index: number): [K, V] | undefined {
+        return undefined;
+    }
+
+    * slice(from: number = 0, to: number = 0): Iterable<[K, V]> {
+        return;
     }
 }
 
@@ -197,22 +297,91 @@ class Node<K, V> extends AVLTree<K, V> {
         return Math.max(this.left.height, this.right.height) + 1;
     }
 
-    * keys(): Iterable<K> {
-        yield * this.left.keys();
-        yield this.key;
-        yield * this.right.keys();
+    @lazy get size(): number {
+        return this.left.size + this.right.size + 1;
     }
 
-    * values(): Iterable<V> {
-        yield * this.left.values();
-        yield this.value;
-        yield * this.right.values();
+    indexOf(key: K): number {
+        const difference = this.comparator(key, this.key);
+        if (difference === 0) return this.left.size;
+        if (difference < 0) return this.left.indexOf(key);
+        const index = this.right.indexOf(key);
+        return index === -1 ? -1 : this.left.size + 1 + index;
+    }
+
+    at(index: number): [K, V] | undefined {
+        const leftSize = this.left.size;
+        if (index === leftSize) return [this.key, this.value];
+        if (index < leftSize) return this.left.at(index);
+        return this.right.at(index - leftSize - 1);
+    }
+
+    * slice(from: number = 0, to: number = this.size): Iterable<[K, V]> {
+        const leftSize = this.left.size;
+        if (from < leftSize) yield * this.left.slice(from, to);
+        if (from <= leftSize && leftSize < to) yield [this.key, this.value];
+        if (to > leftSize + 1) yield * this.right.slice(from - leftSize - 1, to - leftSize - 1);
     }
 
-    * entries(): Iterable<[K,V]> {
-        yield * this.left.entries();
-        yield [this.key, this.value];
-        yield * this.right.entries();
+    floor(key: K): [K, V] | undefined {
+        const difference = this.comparator(key, this.key);
+        if (difference === 0) return [this.key, this.value];
+        if (difference < 0) return this.left.floor(key);
+        return this.right.floor(key) || [this.key, this.value];
+    }
+
+    ceiling(key: K): [K, V] | undefined {
+        const difference = this.comparator(key, this.key);
+        if (difference === 0) return [this.key, this.value];
+        if (difference > 0) return this.right.ceiling(key);
+        return this.left.ceiling(key) || [this.key, this.value];
+    }
+
+    lower(key: K): [K, V] | undefined {
+        const difference = this.comparator(key, this.key);
+        if (difference <= 0) return this.left.lower(key);
+        return this.right.lower(key) || [this.key, this.value];
+    }
+
+    higher(key: K): [K, V] | undefined {
+        const difference = this.comparator(key, this.key);
+        if (difference >= 0) return this.right.higher(key);
+        return this.left.higher(key) || [this.key, this.value];
+    }
+
+    first(): [K, V] | undefined {
+        if (this.left.isEmpty) return [this.key, this.value];
+        return this.left.first();
+    }
+
+    last(): [K, V] | undefined {
+        if (this.right.isEmpty) return [this.key, this.value];
+        return this.right.last();
+    }
+
+    * range(from: K, to: K, fromInclusive: boolean = true, toInclusive: boolean = true): Iterable<[K, V]> {
+        const lower = this.comparator(this.key, from);
+        const upper = this.comparator(this.key, to);
+        if (lower > 0) yield * this.left.range(from, to, fromInclusive, toInclusive);
+        if ((lower > 0 || lower === 0 && fromInclusive) && (upper < 0 || upper === 0 && toInclusive)) yield [this.key, this.value];
+        if (upper < 0) yield * this.right.range(from, to, fromInclusive, toInclusive);
+    }
+}
+
+// In-order traversal with an explicit stack rather than nested generators
+function* nodes<K, V>(tree: AVLTree<K, V>, descending: boolean = false): Iterable<Node<K, V>> {
+    const stack: Node<K, V>[] = [];
+    let current = tree;
+    while (true) {
+        while (!current.isEmpty) {
+            const node = current as Node<K, V>;
+            stack.push(node);
+            current = descending ? node.right : node.left;
+        }
+        const node = stack.pop();
+        if (!node) return;
+        yield node;
+        current = descending ? node.left : node.right;
     }
 }
 
@@ -225,17 +394,13 @@ function balance<K, V>(node: Node<K, V>): Node<K, V> {
 }
 
 function balanceLeft<K, V>(node: Node<K, V>): Node<K, V> {
-    const balance = node.left.balance;
-    if (balance == -1) return balanceLeftRight(node);
-    if (balance == 1) return balanceLeftLeft(node);
-    return node;
+    if (node.left.balance == -1) return balanceLeftRight(node);
+    return balanceLeftLeft(node);
 }
 
 function balanceRight<K, V>(node: Node<K, V>): Node<K, V> {
-    const balance = node.right.balance;
-    if (balance == 1) return balanceRightLeft(node);
-    if (balance == -1) return balanceRightRight(node);
-    return node;
+    if (node.right.balance == 1) return balanceRightLeft(node);
+    return balanceRightRight(node);
 }
 
 function balanceLeftLeft<K, V>(node: Node<K, V>): Node<K, V> {
@@ -244,7 +409,7 @@ function balanceLeftLeft<K, V>(node: Node<K, V>): Node<K, V> {
 
 function balanceLeftRight<K, V>(node: Node<K, V>): Node<K, V> {
     const four = rotateLeft(node.left as Node<K, V>);
-    return balanceLeftLeft(node.replaceLeft(four));
+    return balanceLeftLeft(new Node(node.comparator, node.key, node.value, four, node.right));
 }
 
 function balanceRightRight<K, V>(node: Node<K, V>): Node<K, V> {
@@ -253,19 +418,122 @@ function balanceRightRight<K, V>(node: Node<K, V>): Node<K, V> {
 
 function balanceRightLeft<K, V>(node: Node<K, V>): Node<K, V> {
     const four = rotateRight(node.right as Node<K, V>);
-    return balanceRightRight(node.replaceRight(four));
+    return balanceRightRight(new Node(node.comparator, node.key, node.value, node.left, four));
 }
 
+// Rotations build the nodes directly, rebalancing the intermediate nodes could rotate them again
 function rotateLeft<K, V>(node: Node<K, V>): Node<K, V> {
     const right = node.right as Node<K, V>;
     const b = right.left;
-    const three = node.replaceRight(b);
-    return right.replaceLeft(three);
+    const three = new Node(node.comparator, node.key, node.value, node.left, b);
+    return new Node(node.comparator, right.key, right.value, three, right.right);
 }
 
 function rotateRight<K, V>(node: Node<K, V>): Node<K, V> {
     const left = node.left as Node<K, V>;
     const c = left.right;
-    const five = node.replaceLeft(c);
-    return left.replaceRight(five);
+    const five = new Node(node.comparator, node.key, node.value, c, node.right);
+    return new Node(node.comparator, left.key, left.value, left.left, five);
+}
+
+function build<K, V>(entries: [K, V][], from: number, to: number, empty: AVLTree<K, V>): AVLTree<K, V> {
+    if (from >= to) return empty;
+    const middle = (from + to) >>> 1;
+    const [key, value] = entries[middle];
+    return new Node(empty.comparator, key, value, build(entries, from, middle, empty), build(entries, middle + 1, to, empty));
+}
+
+// Join based set operations: https://en.wikipedia.org/wiki/AVL_tree#Set_operations_and_bulk_operations
+function join<K, V>(left: AVLTree<K, V>, key: K, value: V, right: AVLTree<K, V>): AVLTree<K, V> {
+    if (left.height > right.height + 1) {
+        const node = left as Node<K, V>;
+        return node.replaceRight(join(node.right, key, value, right));
+    }
+    if (right.height > left.height + 1) {
+        const node = right as Node<K, V>;
+        return node.replaceLeft(join(left, key, value, node.left));
+    }
+    return new Node(left.comparator, key, value, left, right);
+}
+
+function concatenate<K, V>(left: AVLTree<K, V>, right: AVLTree<K, V>): AVLTree<K, V> {
+    if (left.isEmpty) return right;
+    const {tree, key, value} = left.removeLast();
+    return join(tree, key!, value!, right);
+}
+
+interface Split<K, V> {
+    left: AVLTree<K, V>;
+    found?: Node<K, V>;
+    right: AVLTree<K, V>;
+}
+
+function split<K, V>(tree: AVLTree<K, V>, key: K): Split<K, V> {
+    if (tree.isEmpty) return {left: tree, right: tree};
+    const node = tree as Node<K, V>;
+    const difference = tree.comparator(key, node.key);
+    if (difference === 0) return {left: node.left, found: node, right: node.right};
+    if (difference < 0) {
+        const {left, found, right} = split(node.left, key);
+        return {left, found, right: join(right, node.key, node.value, node.right)};
+    }
+    const {left, found, right} = split(node.right, key);
+    return {left: join(node.left, node.key, node.value, left), found, right};
+}
+
+function union<K, V>(a: AVLTree<K, V>, b: AVLTree<K, V>, merge: Merge<K, V>): AVLTree<K, V> {
+    if (a.isEmpty) return b;
+    if (b.isEmpty) return a;
+    const node = b as Node<K, V>;
+    const {left, found, right} = split(a, node.key);
+    const value = found ? merge(found.value, node.value, node.key) : node.value;
+    return join(union(left, node.left, merge), node.key, value, union(right, node.right, merge));
+}
+
+function intersection<K, V>(a: AVLTree<K, V>, b: AVLTree<K, V>, merge: Merge<K, V>): AVLTree<K, V> {
+    if (a.isEmpty) return a;
+    if (b.isEmpty) return AVLTree.empty<K, V>(a.comparator);
+    const node = b as Node<K, V>;
+    const {left, found, right} = split(a, node.key);
+    const l = intersection(left, node.left, merge);
+    const r = intersection(right, node.right, merge);
+    if (found) return join(l, node.key, merge(found.value, node.value, node.key), r);
+    return concatenate(l, r);
+}
+
+function difference<K, V>(a: AVLTree<K, V>, b: AVLTree<K, any>): AVLTree<K, V> {
+    if (a.isEmpty || b.isEmpty) return a;
+    const node = b as Node<K, any>;
+    const {left, right} = split(a, node.key);
+    return concatenate(difference(left, node.left), difference(right, node.right));
+}
+
+export type Change<K, V> =
+    { type: 'added', key: K, value: V } |
+    { type: 'removed', key: K, value: V } |
+    { type: 'changed', key: K, previous: V, value: V };
+
+/**
+ * Changes needed to turn previous into current, in key order.
+ *
+ * Subtrees shared by both versions are skipped by reference, so the cost follows the size of the change
+ * rather than the size of the trees.
+ */
+export function* diff<K, V>(previous: AVLTree<K, V>, current: AVLTree<K, V>,
+                            equal: (a: V, b: V) => boolean = (a, b) => a === b): Iterable<Change<K, V>> {
+    if (previous === current) return;
+    if (previous.isEmpty) {
+        for (const [key, value] of current.entries()) yield {type: 'added', key, value};
+        return;
+    }
+    if (current.isEmpty) {
+        for (const [key, value] of previous.entries()) yield {type: 'removed', key, value};
+        return;
+    }
+    const node = current as Node<K, V>;
+    const {left, found, right} = split(previous, node.key);
+    yield * diff(left, node.left, equal);
+    if (!found) yield {type: 'added', key: node.key, value: node.value};
+    else if (!equal(found.value, node.value)) yield {type: 'changed', key: node.key, previous: found.value, value: node.value};
+    yield * diff(right, node.right, equal);
 }
@@ -1,6 +1,10 @@
 export type Names = string[];
 
-const namesRegex = /\(\?<([^>]+)>/g;
+export interface Groups {
+    [name: string]: string | undefined;
+}
+
+const namedGroup = /^\?<([^>=!][^>]*)>/;
 
 export interface NamedMatch {
     name: string;
@@ -12,16 +16,45 @@ export type NonMatch = string;
 export type MatchOrNot = NamedMatch[]|NonMatch;
 
 export class NamedRegExp {
-    constructor(public pattern: RegExp, public names: Names) {
+    /**
+     * @param indexes the capturing group number of each name, defaults to names being the only groups
+     */
+    constructor(public pattern: RegExp, public names: Names, public indexes: number[] = names.map((n, i) => i + 1)) {
     }
 
+    /**
+     * Turns named groups into plain capturing groups, keeping track of which group each name ended up as.
+     * Unnamed groups still count, while non capturing groups, lookarounds, escaped parentheses
+     * and parentheses inside character classes do not.
+     */
     static create(originalPattern: string, flags?: string): NamedRegExp {
         const names: Names = [];
-        const pattern = replace(namesRegex, originalPattern, match => {
-            names.push(match[1]);
-            return '(';
-        });
-        return new NamedRegExp(new RegExp(pattern, flags), names);
+        const indexes: number[] = [];
+        let pattern = '';
+        let groups = 0;
+        let inClass = false;
+        for (let i = 0; i < originalPattern.length; i++) {
+            const char = originalPattern[i];
+            if (char === '\\') {
+                pattern += char + originalPattern.charAt(++i);
+                continue;
+            }
+            if (inClass) inClass = char !== ']';
+            else if (char === '[') inClass = true;
+            else if (char === '(') {
+                const named = namedGroup.exec(originalPattern.substring(i + 1));
+                if (named) {
+                    names.push(named[1]);
+                    indexes.push(++groups);
+                    pattern += '(';
+                    i += named[0].length;
+                    continue;
+                }
+                if (originalPattern[i + 1] !== '?') groups++;
+            }
+            pattern += char;
+        }
+        return new NamedRegExp(new RegExp(pattern, flags), names, indexes);
     }
 
     match(value: string): NamedMatch[] {
@@ -30,9 +63,20 @@ export class NamedRegExp {
         return this.namedMatch(result);
     }
 
-    private namedMatch(result: RegExpMatchArray) {
-        const values = result.slice(1);
-        return values.map((v, i) => ({name: this.names[i], value: v}));
+    /**
+     * Value of each name in the first match, a name used more than once takes its first participating group
+     */
+    groups(value: string): Groups | undefined {
+        const result = value.match(this.pattern);
+        if (!result) return undefined;
+        return this.namedMatch(result).reduce((groups: Groups, {name, value}) => {
+            if (typeof groups[name] === 'undefined') groups[name] = value;
+            return groups;
+        }, {});
+    }
+
+    private namedMatch(result: RegExpMatchArray): NamedMatch[] {
+        return this.names.map((name, i) => ({name, value: result[this.indexes[i]]}));
     }
 
     * exec(value:string): Iterable<NamedMatch[]> {
@@ -66,7 +110,8 @@ export class NamedRegExp {
     toJSON() {
         return {
             pattern: this.pattern.source,
-            names: this.names
+            names: this.names,
+            indexes: this.indexes
         };
     }
 }
@@ -52,6 +52,12 @@ export function isPromiseLike(instance: any): instance is PromiseLike<any> {
     return typeof instance == 'object' && 'then' in instance;
 }
 
+export function close(iterator: Iterator<any> | AsyncIterator<any>): void {
+    if (!iterator.return) return;
+    const result = iterator.return();
+    if (isPromiseLike(result)) Promise.resolve(result).catch(() => undefined);
+}
+
 export function toIterable<T>(...t: T[]): Iterable<T> {
     return t;
 }
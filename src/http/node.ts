@@ -1,5 +1,8 @@
 import {Body, Chunk, Handler, Header, Headers, host, isBody, Request, request, Response, Server, Uri} from ".";
 import {createServer, IncomingMessage, request as NodeRequest, Server as NodeServer, ServerResponse} from 'http';
+import {fromReadable, toWritable} from "../streams";
+import {sequence} from "../sequence";
+import {map} from "../transducers";
 
 export class ClientHandler implements Handler {
     handle(request: Request): Promise<Response> {
@@ -56,9 +59,7 @@ export const adapter = (handler:Handler) => (nodeRequest: IncomingMessage, nodeR
                 const text = await response.body.text();
                 nodeResponse.write(text);
             } catch (e) {
-                for await(const value of response.body) {
-                    nodeResponse.write(Buffer.from(value.data().buffer as any));
-                }
+                await toWritable(sequence(response.body, map((value: Chunk) => Buffer.from(value.data().buffer as any))), nodeResponse, {end: false});
             } finally {
                 nodeResponse.end();
             }
@@ -124,17 +125,8 @@ export class MessageBody implements Body {
     }
 
     [Symbol.asyncIterator](): AsyncIterator<Chunk> {
-        const iterator = new AsyncIteratorHandler<Chunk>();
-        this.message.on("data", chunk => {
-            iterator.handle({value: typeof chunk == 'string' ? stringChunk(chunk) : bufferChunk(chunk), done: false});
-        });
-        this.message.on("end", () => {
-            iterator.handle({value: null as any, done: true})
-        });
-        this.message.on("error", error => {
-            iterator.handle(error)
-        });
-        return iterator;
+        return sequence(fromReadable<Buffer | string>(this.message),
+            map((chunk: Buffer | string) => typeof chunk == 'string' ? stringChunk(chunk) : bufferChunk(chunk)))[Symbol.asyncIterator]();
     }
 }
 
@@ -151,35 +143,3 @@ function bufferChunk(value: Buffer): Chunk {
         data: () => value,
     }
 }
-
-type StateHandler = [Function, Function];
-type IteratorState<T> = StateHandler | IteratorResult<T> | Error;
-
-function isStateHandler<T>(state: IteratorState<T>): state is StateHandler {
-    return Array.isArray(state);
-}
-
-function consume<T>(state: IteratorResult<T> | Error, [resolve, reject]: [Function, Function]) {
-    if (state instanceof Error) reject(state);
-    else resolve(state);
-}
-
-class AsyncIteratorHandler<T> implements AsyncIterator<T> {
-    private state: IteratorState<T>[] = [];
-
-    handle(newState: IteratorState<T>) {
-        const nextState = this.state.pop();
-        if (typeof nextState == 'undefined') return this.state.push(newState);
-        if (isStateHandler(newState) && !isStateHandler(nextState)) return consume(nextState, newState);
-        if (!isStateHandler(newState) && isStateHandler(nextState)) return consume(newState, nextState);
-        this.state.unshift(nextState);
-        this.state.push(newState);
-    }
-
-    next(): Promise<IteratorResult<T>> {
-        return new Promise<IteratorResult<T>>((resolve, reject) => {
-            this.handle([resolve, reject]);
-        });
-    }
-}
-
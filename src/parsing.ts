@@ -1,5 +1,5 @@
 import {characters, NamedMatch, NamedRegExp} from "./characters";
-import {PrefixTree} from "./trie";
+import {MultiPrefixTree} from "./trie";
 import {flatten, unique} from "./arrays";
 import {array, Mapper} from "./collections";
 import {flatMap, map} from "./transducers";
@@ -74,18 +74,14 @@ export interface Datum<V> {
 }
 
 export class DatumLookup<V> {
-    private readonly prefixTree: PrefixTree<Datum<V>[]>;
+    private readonly prefixTree: MultiPrefixTree<Datum<V>>;
 
     constructor(private readonly data: Datum<V>[]) {
-        this.prefixTree = this.data.reduce((t, m) => {
-            const data = t.lookup(m.name) || [];
-            data.push(m);
-            return t.insert(m.name, data);
-        }, new PrefixTree<Datum<V>[]>());
+        this.prefixTree = this.data.reduce((t, m) => t.insert(m.name, m), new MultiPrefixTree<Datum<V>>());
     }
 
     parse(value: string, strategy: MatchStrategy<V> = uniqueMatch): V {
-        const matches: Datum<V>[] = flatten(this.prefixTree.match(value));
+        const matches: Datum<V>[] = this.prefixTree.match(value);
         const match = strategy(matches);
         if (typeof match === "undefined") throw new Error(`${this.constructor.name} - Unable to parse: ${value} matched : ${JSON.stringify(matches)}`);
         return match;
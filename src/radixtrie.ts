@@ -0,0 +1,177 @@
+import {flatten, unique} from "./arrays";
+import {lazy} from "./lazy";
+import {array, ascending, Comparator} from "./collections";
+import {AVLTree} from "./avltree";
+import {TrieBackend} from "./trie";
+
+export interface RadixTrieJSON<K, V> {
+    value?: V;
+    label?: K[];
+    children?: RadixTrieJSON<K, V>[];
+}
+
+/**
+ * Path compressed Trie: chains of children without values are collapsed into a single edge,
+ * so a key only costs a node where it branches or ends. Each node holds the label of the edge leading to it.
+ */
+export class RadixTrie<K, V> implements TrieBackend<K, V> {
+    constructor(public readonly comparator: Comparator<K> = ascending,
+                public readonly value?: V,
+                public readonly children: AVLTree<K, RadixTrie<K, V>> = AVLTree.empty(comparator),
+                public readonly label: K[] = []) {
+    }
+
+    contains(key: K[]): boolean {
+        return typeof this.lookup(key) !== 'undefined';
+    }
+
+    @lazy get isEmpty(): boolean {
+        return typeof this.value === 'undefined' && this.children.isEmpty;
+    }
+
+    lookup(key: K[]): V | undefined {
+        let trie: RadixTrie<K, V> = this;
+        let index = 0;
+        while (index < key.length) {
+            const child = trie.children.lookup(key[index]);
+            if (!child) return undefined;
+            if (this.common(child.label, key, index) < child.label.length) return undefined;
+            index += child.label.length;
+            trie = child;
+        }
+        return trie.value;
+    }
+
+    match(key: K[]): V[] {
+        return array(this.matches(key));
+    }
+
+    * matches(key: K[]): Iterable<V> {
+        const trie = this.find(key);
+        if (!trie) return;
+        const stack: RadixTrie<K, V>[] = [trie];
+        while (stack.length > 0) {
+            const current = stack.pop()!;
+            if (typeof current.value !== 'undefined') yield current.value;
+            for (const [, child] of current.children.entriesDescending()) stack.push(child);
+        }
+    }
+
+    insert(key: K[], value: V): RadixTrie<K, V> {
+        return this.insertAt(key, 0, value);
+    }
+
+    delete(key: K[]): RadixTrie<K, V> {
+        return this.deleteAt(key, 0);
+    }
+
+    /** Combines both tries, calling merge for keys holding a value in both */
+    merge(other: TrieBackend<K, V>, merge: (a: V, b: V) => V): RadixTrie<K, V> {
+        let result: RadixTrie<K, V> = this;
+        for (const [key, value] of other.entries()) {
+            const existing = result.lookup(key);
+            result = result.insert(key, typeof existing === 'undefined' ? value : merge(existing, value));
+        }
+        return result;
+    }
+
+    * edges(): Iterable<[K[], RadixTrie<K, V>]> {
+        for (const child of this.children.values()) yield [child.label, child];
+    }
+
+    /** Every key and its value in key order */
+    * entries(): Iterable<[K[], V]> {
+        const stack: [K[], RadixTrie<K, V>][] = [[[], this]];
+        while (stack.length > 0) {
+            const [key, current] = stack.pop()!;
+            if (typeof current.value !== 'undefined') yield [key, current.value];
+            for (const [, child] of current.children.entriesDescending()) stack.push([key.concat(child.label), child]);
+        }
+    }
+
+    toJSON(): RadixTrieJSON<K, V> {
+        const json: RadixTrieJSON<K, V> = {};
+        if (this.label.length > 0) json.label = this.label;
+        if (typeof this.value !== 'undefined') json.value = this.value;
+        if (!this.children.isEmpty) json.children = array(this.children.values()).map(t => t.toJSON());
+        return json;
+    }
+
+    static fromJSON<K, V>(json: RadixTrieJSON<K, V>, comparator: Comparator<K> = ascending): RadixTrie<K, V> {
+        const children = (json.children || []).map(t => RadixTrie.fromJSON(t, comparator)).map(t => [t.label[0], t] as [K, RadixTrie<K, V>]);
+        return new RadixTrie(comparator, json.value, AVLTree.fromSorted(children, comparator), json.label);
+    }
+
+    @lazy get keys(): K[] {
+        return unique(flatten(array(this.children.values()).map(child => [...child.label, ...child.keys])));
+    }
+
+    @lazy get height(): number {
+        return array(this.children.values()).reduce((a, child) => Math.max(a, child.label.length + child.height), 0);
+    }
+
+    private insertAt(key: K[], index: number, value: V): RadixTrie<K, V> {
+        if (index === key.length) return new RadixTrie(this.comparator, value, this.children, this.label);
+        const head = key[index];
+        const child = this.children.lookup(head);
+        if (!child) return this.replace(head, new RadixTrie<K, V>(this.comparator, value, undefined, key.slice(index)));
+        const label = child.label;
+        const common = this.common(label, key, index);
+        if (common === label.length) return this.replace(head, child.insertAt(key, index + common, value));
+        const rest = child.relabel(label.slice(common));
+        const split = new RadixTrie<K, V>(this.comparator, undefined, AVLTree.create(rest.label[0], rest, this.comparator), label.slice(0, common));
+        return this.replace(head, split.insertAt(key, index + common, value));
+    }
+
+    private deleteAt(key: K[], index: number): RadixTrie<K, V> {
+        if (index === key.length) {
+            if (typeof this.value === 'undefined') return this;
+            return new RadixTrie<K, V>(this.comparator, undefined, this.children, this.label);
+        }
+        const head = key[index];
+        const child = this.children.lookup(head);
+        if (!child) return this;
+        if (this.common(child.label, key, index) < child.label.length) return this;
+        const deleted = child.deleteAt(key, index + child.label.length);
+        if (deleted === child) return this;
+        if (deleted.isEmpty) return new RadixTrie(this.comparator, this.value, this.children.delete(head).tree, this.label);
+        return this.replace(head, deleted.compress());
+    }
+
+    /** Merges a node left without a value and a single child into that child */
+    private compress(): RadixTrie<K, V> {
+        if (typeof this.value !== 'undefined' || this.children.size !== 1) return this;
+        const child = this.children.first()![1];
+        return child.relabel(this.label.concat(child.label));
+    }
+
+    private relabel(label: K[]): RadixTrie<K, V> {
+        return new RadixTrie(this.comparator, this.value, this.children, label);
+    }
+
+    private replace(head: K, child: RadixTrie<K, V>): RadixTrie<K, V> {
+        return new RadixTrie(this.comparator, this.value, this.children.insert(head, child), this.label);
+    }
+
+    /** Node whose path starts with the key, even when the key ends half way along an edge */
+    private find(key: K[]): RadixTrie<K, V> | undefined {
+        let trie: RadixTrie<K, V> = this;
+        let index = 0;
+        while (index < key.length) {
+            const child = trie.children.lookup(key[index]);
+            if (!child) return undefined;
+            const common = this.common(child.label, key, index);
+            if (common < child.label.length && index + common < key.length) return undefined;
+            index += common;
+            trie = child;
+        }
+        return trie;
+    }
+
+    /** Length of the common prefix of the label and the key from index */
+    private common(label: K[], key: K[], index: number): number {
+        let i = 0;
+        while (i < label.length && index + i < key.length && this.comparator(label[i], key[index + i]) === 0) i++;
+        return i;
+    }
+}
@@ -0,0 +1,232 @@
+import {ascending, Comparator, isIterable, Mapper, Reducer} from "./collections";
+import {AVLTree} from "./avltree";
+import {SortedMap, SortedSet} from "./sorted";
+
+/**
+ * A Reducer that needs a final step to turn its accumulator into a result (see reduce)
+ */
+export interface Collector<A, B, R> extends Reducer<A, B> {
+    complete(accumulator: B): R;
+}
+
+export function isCollector(instance: any): instance is Collector<any, any, any> {
+    return typeof instance == 'object' && typeof instance.complete == 'function';
+}
+
+export function reduce<A, B, R>(source: Iterable<A>, collector: Collector<A, B, R>): R;
+export function reduce<A, B>(source: Iterable<A>, reducer: Reducer<A, B>): B;
+export function reduce<A, B, R>(source: AsyncIterable<A>, collector: Collector<A, B, R>): Promise<R>;
+export function reduce<A, B>(source: AsyncIterable<A>, reducer: Reducer<A, B>): Promise<B>;
+export function reduce(source: Iterable<any> | AsyncIterable<any>, reducer: Reducer<any, any>): any {
+    return isIterable(source) ? reduceSync(source, reducer) : reduceAsync(source, reducer);
+}
+
+function reduceSync<A, B>(iterable: Iterable<A>, reducer: Reducer<A, B>): any {
+    let accumulator = reducer.identity();
+    for (const a of iterable) accumulator = reducer.call(accumulator, a);
+    return complete(reducer, accumulator);
+}
+
+async function reduceAsync<A, B>(iterable: AsyncIterable<A>, reducer: Reducer<A, B>): Promise<any> {
+    let accumulator = reducer.identity();
+    for await (const a of iterable) accumulator = reducer.call(accumulator, a);
+    return complete(reducer, accumulator);
+}
+
+function complete<A, B>(reducer: Reducer<A, B>, accumulator: B): any {
+    return isCollector(reducer) ? reducer.complete(accumulator) : accumulator;
+}
+
+export class Count implements Reducer<any, number> {
+    call(accumulator: number, instance: any): number {
+        return accumulator + 1;
+    }
+
+    identity(): number {
+        return 0;
+    }
+}
+
+export const count = new Count();
+
+export class Minimum<A> implements Reducer<A, A | undefined> {
+    constructor(public comparator: Comparator<A>) {
+    }
+
+    call(accumulator: A | undefined, instance: A): A | undefined {
+        if (typeof accumulator === 'undefined') return instance;
+        return this.comparator(instance, accumulator) < 0 ? instance : accumulator;
+    }
+
+    identity(): A | undefined {
+        return undefined;
+    }
+}
+
+export function min<A>(comparator: Comparator<A> = ascending): Minimum<A> {
+    return new Minimum(comparator);
+}
+
+export class Maximum<A> implements Reducer<A, A | undefined> {
+    constructor(public comparator: Comparator<A>) {
+    }
+
+    call(accumulator: A | undefined, instance: A): A | undefined {
+        if (typeof accumulator === 'undefined') return instance;
+        return this.comparator(instance, accumulator) > 0 ? instance : accumulator;
+    }
+
+    identity(): A | undefined {
+        return undefined;
+    }
+}
+
+export function max<A>(comparator: Comparator<A> = ascending): Maximum<A> {
+    return new Maximum(comparator);
+}
+
+export class Average implements Collector<number, [number, number], number> {
+    call([total, count]: [number, number], instance: number): [number, number] {
+        return [total + instance, count + 1];
+    }
+
+    identity(): [number, number] {
+        return [0, 0];
+    }
+
+    complete([total, count]: [number, number]): number {
+        return total / count;
+    }
+}
+
+export const average = new Average();
+
+export class Join implements Collector<string, string[], string> {
+    constructor(public separator: string) {
+    }
+
+    call(accumulator: string[], instance: string): string[] {
+        accumulator.push(instance);
+        return accumulator;
+    }
+
+    identity(): string[] {
+        return [];
+    }
+
+    complete(accumulator: string[]): string {
+        return accumulator.join(this.separator);
+    }
+}
+
+export function join(separator: string = ','): Join {
+    return new Join(separator);
+}
+
+export class IntoMap<A, K, V> implements Reducer<A, Map<K, V>> {
+    constructor(public keyMapper: Mapper<A, K>, public valueMapper: Mapper<A, V>) {
+    }
+
+    call(accumulator: Map<K, V>, instance: A): Map<K, V> {
+        return accumulator.set(this.keyMapper(instance), this.valueMapper(instance));
+    }
+
+    identity(): Map<K, V> {
+        return new Map<K, V>();
+    }
+}
+
+export function toMap<A, K>(keyMapper: Mapper<A, K>): IntoMap<A, K, A>;
+export function toMap<A, K, V>(keyMapper: Mapper<A, K>, valueMapper: Mapper<A, V>): IntoMap<A, K, V>;
+export function toMap<A, K, V>(keyMapper: Mapper<A, K>, valueMapper: Mapper<A, A | V> = a => a): IntoMap<A, K, A | V> {
+    return new IntoMap(keyMapper, valueMapper);
+}
+
+export class IntoSet<A> implements Reducer<A, Set<A>> {
+    call(accumulator: Set<A>, instance: A): Set<A> {
+        return accumulator.add(instance);
+    }
+
+    identity(): Set<A> {
+        return new Set<A>();
+    }
+}
+
+export function toSet<A>(): IntoSet<A> {
+    return new IntoSet<A>();
+}
+
+export class IntoAVLTree<A, K, V> implements Reducer<A, AVLTree<K, V>> {
+    constructor(public keyMapper: Mapper<A, K>, public valueMapper: Mapper<A, V>, public comparator: Comparator<K>) {
+    }
+
+    call(accumulator: AVLTree<K, V>, instance: A): AVLTree<K, V> {
+        return accumulator.insert(this.keyMapper(instance), this.valueMapper(instance));
+    }
+
+    identity(): AVLTree<K, V> {
+        return AVLTree.empty<K, V>(this.comparator);
+    }
+}
+
+export function toAVLTree<A, K>(keyMapper: Mapper<A, K>): IntoAVLTree<A, K, A>;
+export function toAVLTree<A, K, V>(keyMapper: Mapper<A, K>, valueMapper: Mapper<A, V>, comparator?: Comparator<K>): IntoAVLTree<A, K, V>;
+export function toAVLTree<A, K, V>(keyMapper: Mapper<A, K>, valueMapper: Mapper<A, A | V> = a => a, comparator: Comparator<K> = ascending): IntoAVLTree<A, K, A | V> {
+    return new IntoAVLTree(keyMapper, valueMapper, comparator);
+}
+
+export class IntoSortedMap<A, K, V> implements Reducer<A, SortedMap<K, V>> {
+    constructor(public keyMapper: Mapper<A, K>, public valueMapper: Mapper<A, V>, public comparator: Comparator<K>) {
+    }
+
+    call(accumulator: SortedMap<K, V>, instance: A): SortedMap<K, V> {
+        return accumulator.set(this.keyMapper(instance), this.valueMapper(instance));
+    }
+
+    identity(): SortedMap<K, V> {
+        return SortedMap.empty<K, V>(this.comparator);
+    }
+}
+
+export function toSortedMap<A, K>(keyMapper: Mapper<A, K>): IntoSortedMap<A, K, A>;
+export function toSortedMap<A, K, V>(keyMapper: Mapper<A, K>, valueMapper: Mapper<A, V>, comparator?: Comparator<K>): IntoSortedMap<A, K, V>;
+export function toSortedMap<A, K, V>(keyMapper: Mapper<A, K>, valueMapper: Mapper<A, A | V> = a => a, comparator: Comparator<K> = ascending): IntoSortedMap<A, K, A | V> {
+    return new IntoSortedMap(keyMapper, valueMapper, comparator);
+}
+
+export class IntoSortedSet<A> implements Reducer<A, SortedSet<A>> {
+    constructor(public comparator: Comparator<A>) {
+    }
+
+    call(accumulator: SortedSet<A>, instance: A): SortedSet<A> {
+        return accumulator.add(instance);
+    }
+
+    identity(): SortedSet<A> {
+        return SortedSet.empty<A>(this.comparator);
+    }
+}
+
+export function toSortedSet<A>(comparator: Comparator<A> = ascending): IntoSortedSet<A> {
+    return new IntoSortedSet(comparator);
+}
+
+export class IntoObject<A, V> implements Reducer<A, { [key: string]: V }> {
+    constructor(public keyMapper: Mapper<A, string>, public valueMapper: Mapper<A, V>) {
+    }
+
+    call(accumulator: { [key: string]: V }, instance: A): { [key: string]: V } {
+        accumulator[this.keyMapper(instance)] = this.valueMapper(instance);
+        return accumulator;
+    }
+
+    identity(): { [key: string]: V } {
+        return {};
+    }
+}
+
+export function toObject<A>(keyMapper: Mapper<A, string>): IntoObject<A, A>;
+export function toObject<A, V>(keyMapper: Mapper<A, string>, valueMapper: Mapper<A, V>): IntoObject<A, V>;
+export function toObject<A, V>(keyMapper: Mapper<A, string>, valueMapper: Mapper<A, A | V> = a => a): IntoObject<A, A | V> {
+    return new IntoObject(keyMapper, valueMapper);
+}
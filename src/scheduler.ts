@@ -0,0 +1,91 @@
+export type Cancel = () => void;
+
+export interface Scheduler {
+    now(): number;
+
+    schedule(task: () => void, delay: number): Cancel;
+}
+
+export class TimeoutScheduler implements Scheduler {
+    now(): number {
+        return Date.now();
+    }
+
+    schedule(task: () => void, delay: number): Cancel {
+        const handle = setTimeout(task, delay);
+        return () => clearTimeout(handle);
+    }
+}
+
+export const defaultScheduler: Scheduler = new TimeoutScheduler();
+
+interface Task {
+    time: number;
+    task: () => void;
+}
+
+/**
+ * Scheduler with a virtual clock.
+ *
+ * Time only moves when {@link advance} is called or, when nothing else is left to run,
+ * by jumping straight to the next scheduled task, so tests never wait for real delays.
+ */
+export class VirtualScheduler implements Scheduler {
+    private time = 0;
+    private tasks: Task[] = [];
+    private running = false;
+
+    now(): number {
+        return this.time;
+    }
+
+    schedule(task: () => void, delay: number): Cancel {
+        const scheduled = {time: this.time + Math.max(delay, 0), task};
+        const index = this.tasks.findIndex(t => t.time > scheduled.time);
+        if (index === -1) this.tasks.push(scheduled);
+        else this.tasks.splice(index, 0, scheduled);
+        this.runWhenIdle();
+        return () => {
+            const index = this.tasks.indexOf(scheduled);
+            if (index !== -1) this.tasks.splice(index, 1);
+        };
+    }
+
+    advance(delay: number): void {
+        const end = this.time + delay;
+        while (this.tasks.length > 0 && this.tasks[0].time <= end) this.runNext();
+        this.time = end;
+    }
+
+    private runNext() {
+        const {time, task} = this.tasks.shift()!;
+        this.time = Math.max(this.time, time);
+        task();
+    }
+
+    private runWhenIdle() {
+        if (this.running) return;
+        this.running = true;
+        setTimeout(() => {
+            this.running = false;
+            if (this.tasks.length === 0) return;
+            this.runNext();
+            this.runWhenIdle();
+        }, 0);
+    }
+}
+
+export class Timer {
+    readonly promise: Promise<void>;
+    readonly cancel: Cancel;
+
+    constructor(delay: number, scheduler: Scheduler = defaultScheduler) {
+        let cancel: Cancel = () => undefined;
+        this.promise = new Promise<void>(resolve => cancel = scheduler.schedule(resolve, delay));
+        this.cancel = cancel;
+    }
+}
+
+export function delay(milliseconds: number, scheduler: Scheduler = defaultScheduler): Promise<void> {
+    return new Timer(milliseconds, scheduler).promise;
+}
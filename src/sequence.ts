@@ -1,6 +1,44 @@
 import {add, increment, subtract} from "./numbers";
-import {takeWhile, Transducer} from "./transducers";
-import {isAsyncIterable, isIterable} from "./collections";
+import {
+    Backoff,
+    bufferTime,
+    catchError,
+    debounce,
+    dedupe,
+    drop,
+    dropWhile,
+    filter,
+    find,
+    first,
+    flatMap,
+    fuse,
+    groupBy,
+    last,
+    map,
+    mapAsync,
+    MapAsyncOptions,
+    onComplete,
+    partitionBy,
+    recover,
+    reject,
+    restartable,
+    restartableAsync,
+    retry,
+    sample,
+    scan,
+    sort,
+    take,
+    takeWhile,
+    throttle,
+    Transducer,
+    windowed,
+    zip
+} from "./transducers";
+import {lazy} from "./lazy";
+import {close, Comparator, isAsyncIterable, isIterable, Mapper, Reducer} from "./collections";
+import {Predicate} from "./predicates";
+import {Scheduler} from "./scheduler";
+import {Collector, reduce} from "./reducers";
 
 export function* iterate<T>(generator: (t: T) => T, value: T): Iterable<T> {
     while (true) {
@@ -49,8 +87,110 @@ export class Sequence<T> implements Iterable<T> {
 
     }
 
+    @lazy get fused(): Transducer<any, any>[] {
+        return fuse(this.transducers);
+    }
+
     [Symbol.iterator](): Iterator<T> {
-        return this.transducers.reduce((r, v) => v.sync(r), this.source)[Symbol.iterator]();
+        return this.fused.reduce((r, v) => restartable(v, r), this.source)[Symbol.iterator]();
+    }
+
+    transduce<B>(transducer: Transducer<T, B>): Sequence<B> {
+        return new Sequence<B>(this.source, [...this.transducers, transducer]);
+    }
+
+    map<B>(mapper: Mapper<T, B>): Sequence<B> {
+        return this.transduce(map(mapper));
+    }
+
+    flatMap<B>(mapper: Mapper<T, Iterable<B>>): Sequence<B> {
+        return this.transduce(flatMap(mapper));
+    }
+
+    filter(predicate: Predicate<T>): Sequence<T> {
+        return this.transduce(filter(predicate));
+    }
+
+    reject(predicate: Predicate<T>): Sequence<T> {
+        return this.transduce(reject(predicate));
+    }
+
+    find(predicate: Predicate<T>): Sequence<T> {
+        return this.transduce(find(predicate));
+    }
+
+    first(): Sequence<T> {
+        return this.transduce(first());
+    }
+
+    last(): Sequence<T> {
+        return this.transduce(last());
+    }
+
+    take(count: number): Sequence<T> {
+        return this.transduce(take(count));
+    }
+
+    drop(count: number): Sequence<T> {
+        return this.transduce(drop(count));
+    }
+
+    takeWhile(predicate: Predicate<T>): Sequence<T> {
+        return this.transduce(takeWhile(predicate));
+    }
+
+    dropWhile(predicate: Predicate<T>): Sequence<T> {
+        return this.transduce(dropWhile(predicate));
+    }
+
+    scan<B>(reducer: Reducer<T, B>): Sequence<B> {
+        return this.transduce(scan(reducer));
+    }
+
+    sort(comparator?: Comparator<T>): Sequence<T> {
+        return this.transduce(sort(comparator));
+    }
+
+    dedupe(comparator?: Comparator<T>): Sequence<T> {
+        return this.transduce(dedupe(comparator));
+    }
+
+    windowed(size: number, step?: number): Sequence<T[]> {
+        return this.transduce(windowed(size, step));
+    }
+
+    zip<B>(other: Iterable<B>): Sequence<[T, B]> {
+        return this.transduce(zip<T, B>(other));
+    }
+
+    groupBy<K>(mapper: Mapper<T, K>): Sequence<[K, T[]]> {
+        return this.transduce(groupBy(mapper));
+    }
+
+    partitionBy<K>(mapper: Mapper<T, K>): Sequence<[K, T[]]> {
+        return this.transduce(partitionBy(mapper));
+    }
+
+    catchError(handler: (error: any) => Iterable<T>): Sequence<T> {
+        return this.transduce(catchError(handler));
+    }
+
+    retry(count: number): Sequence<T> {
+        return this.transduce(retry(count));
+    }
+
+    recover<B>(mapper: Mapper<T, B>, handler: (error: any, t: T) => B): Sequence<B> {
+        return this.transduce(recover(mapper, handler));
+    }
+
+    onComplete(callback: () => void): Sequence<T> {
+        return this.transduce(onComplete(callback));
+    }
+
+    reduce<B, R>(collector: Collector<T, B, R>): R;
+    reduce<B>(reducer: Reducer<T, B>): B;
+    reduce(reducer: Reducer<T, any>): any {
+        return reduce(this, reducer);
     }
 }
 
@@ -59,9 +199,227 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
 
     }
 
+    @lazy get fused(): Transducer<any, any>[] {
+        return fuse(this.transducers);
+    }
+
     [Symbol.asyncIterator](): AsyncIterator<T> {
-        return this.transducers.reduce((r, v) => v.async_(r), this.source)[Symbol.asyncIterator]();
+        return this.fused.reduce((r, v) => restartableAsync(v, r), this.source)[Symbol.asyncIterator]();
+    }
+
+    transduce<B>(transducer: Transducer<T, B>): AsyncSequence<B> {
+        return new AsyncSequence<B>(this.source, [...this.transducers, transducer]);
+    }
+
+    map<B>(mapper: Mapper<T, B>): AsyncSequence<B> {
+        return this.transduce(map(mapper));
+    }
+
+    mapAsync<B>(mapper: Mapper<T, PromiseLike<B>>, options?: MapAsyncOptions): AsyncSequence<B> {
+        return this.transduce(mapAsync(mapper, options));
+    }
+
+    flatMap<B>(mapper: Mapper<T, Iterable<B> | AsyncIterable<B>>): AsyncSequence<B> {
+        return this.transduce(flatMap(mapper));
+    }
+
+    filter(predicate: Predicate<T>): AsyncSequence<T> {
+        return this.transduce(filter(predicate));
+    }
+
+    reject(predicate: Predicate<T>): AsyncSequence<T> {
+        return this.transduce(reject(predicate));
+    }
+
+    find(predicate: Predicate<T>): AsyncSequence<T> {
+        return this.transduce(find(predicate));
+    }
+
+    first(): AsyncSequence<T> {
+        return this.transduce(first());
     }
+
+    last(): AsyncSequence<T> {
+        return this.transduce(last());
+    }
+
+    take(count: number): AsyncSequence<T> {
+        return this.transduce(take(count));
+    }
+
+    drop(count: number): AsyncSequence<T> {
+        return this.transduce(drop(count));
+    }
+
+    takeWhile(predicate: Predicate<T>): AsyncSequence<T> {
+        return this.transduce(takeWhile(predicate));
+    }
+
+    dropWhile(predicate: Predicate<T>): AsyncSequence<T> {
+        return this.transduce(dropWhile(predicate));
+    }
+
+    scan<B>(reducer: Reducer<T, B>): AsyncSequence<B> {
+        return this.transduce(scan(reducer));
+    }
+
+    sort(comparator?: Comparator<T>): AsyncSequence<T> {
+        return this.transduce(sort(comparator));
+    }
+
+    dedupe(comparator?: Comparator<T>): AsyncSequence<T> {
+        return this.transduce(dedupe(comparator));
+    }
+
+    windowed(size: number, step?: number): AsyncSequence<T[]> {
+        return this.transduce(windowed(size, step));
+    }
+
+    zip<B>(other: AsyncIterable<B>): AsyncSequence<[T, B]> {
+        return this.transduce(zip<T, B>(other));
+    }
+
+    groupBy<K>(mapper: Mapper<T, K>): AsyncSequence<[K, T[]]> {
+        return this.transduce(groupBy(mapper));
+    }
+
+    partitionBy<K>(mapper: Mapper<T, K>): AsyncSequence<[K, T[]]> {
+        return this.transduce(partitionBy(mapper));
+    }
+
+    bufferTime(milliseconds: number, scheduler?: Scheduler): AsyncSequence<T[]> {
+        return this.transduce(bufferTime(milliseconds, scheduler));
+    }
+
+    debounce(milliseconds: number, scheduler?: Scheduler): AsyncSequence<T> {
+        return this.transduce(debounce(milliseconds, scheduler));
+    }
+
+    throttle(milliseconds: number, scheduler?: Scheduler): AsyncSequence<T> {
+        return this.transduce(throttle(milliseconds, scheduler));
+    }
+
+    sample(milliseconds: number, scheduler?: Scheduler): AsyncSequence<T> {
+        return this.transduce(sample(milliseconds, scheduler));
+    }
+
+    catchError(handler: (error: any) => Iterable<T> | AsyncIterable<T>): AsyncSequence<T> {
+        return this.transduce(catchError(handler));
+    }
+
+    retry(count: number, backoff?: Backoff, scheduler?: Scheduler): AsyncSequence<T> {
+        return this.transduce(retry(count, backoff, scheduler));
+    }
+
+    recover<B>(mapper: Mapper<T, B | PromiseLike<B>>, handler: (error: any, t: T) => B): AsyncSequence<B> {
+        return this.transduce(recover(mapper, handler));
+    }
+
+    onComplete(callback: () => void | PromiseLike<void>): AsyncSequence<T> {
+        return this.transduce(onComplete(callback));
+    }
+
+    reduce<B, R>(collector: Collector<T, B, R>): Promise<R>;
+    reduce<B>(reducer: Reducer<T, B>): Promise<B>;
+    reduce(reducer: Reducer<T, any>): Promise<any> {
+        return reduce(this, reducer);
+    }
+}
+
+export type Source<T> = Iterable<T> | AsyncIterable<T>;
+export type Sources<T extends any[]> = { [K in keyof T]: Source<T[K]> };
+
+export function merge<T>(...sources: Source<T>[]): AsyncSequence<T> {
+    return defer(() => merging(sources.map(asyncIterator)));
+}
+
+export function concat<T>(...sources: Source<T>[]): AsyncSequence<T> {
+    return defer(() => concatenating(sources));
+}
+
+export function race<T>(...sources: Source<T>[]): AsyncSequence<T> {
+    return defer(() => racing(sources.map(asyncIterator)));
+}
+
+export function combineLatest<T extends any[]>(...sources: Sources<T>): AsyncSequence<T> {
+    return defer(() => combining((sources as Source<any>[]).map(asyncIterator))) as AsyncSequence<T>;
 }
 
+/**
+ * Calls the factory every time the sequence is iterated, so sources like a remote fetch can be restarted (see retry)
+ */
+export function defer<T>(factory: () => Source<T>): AsyncSequence<T> {
+    return new AsyncSequence<T>({[Symbol.asyncIterator]: () => asyncIterator(factory())}, []);
+}
+
+function asyncIterator<T>(source: Source<T>): AsyncIterator<T> {
+    return isAsyncIterable(source) ? source[Symbol.asyncIterator]() : fromIterable(source)[Symbol.asyncIterator]();
+}
+
+async function* fromIterable<T>(iterable: Iterable<T>): AsyncIterable<T> {
+    yield* iterable;
+}
 
+async function* notifications<T>(iterators: AsyncIterator<T>[]): AsyncIterable<[number, T]> {
+    const active = new Set<number>();
+    const pending = new Map<number, Promise<[number, IteratorResult<T>]>>();
+    const request = (index: number) => pending.set(index, iterators[index].next().then(r => [index, r] as [number, IteratorResult<T>]));
+    iterators.forEach((iterator, index) => {
+        active.add(index);
+        request(index);
+    });
+    try {
+        while (pending.size > 0) {
+            const [index, result] = await Promise.race(pending.values());
+            pending.delete(index);
+            if (result.done) {
+                active.delete(index);
+                continue;
+            }
+            yield [index, result.value];
+            request(index);
+        }
+    } finally {
+        for (const index of active) close(iterators[index]);
+    }
+}
+
+async function* merging<T>(iterators: AsyncIterator<T>[]): AsyncIterable<T> {
+    for await (const [, value] of notifications(iterators)) yield value;
+}
+
+async function* concatenating<T>(sources: Source<T>[]): AsyncIterable<T> {
+    for (const source of sources) yield* source as AsyncIterable<T>;
+}
+
+async function* racing<T>(iterators: AsyncIterator<T>[]): AsyncIterable<T> {
+    if (iterators.length === 0) return;
+    const [index, first] = await Promise.race(iterators.map((iterator, index) => iterator.next().then(r => [index, r] as [number, IteratorResult<T>])))
+        .catch(error => {
+            iterators.forEach(close);
+            throw error;
+        });
+    const winner = iterators[index];
+    iterators.forEach(iterator => {
+        if (iterator !== winner) close(iterator);
+    });
+    let result = first;
+    try {
+        while (!result.done) {
+            yield result.value;
+            result = await winner.next();
+        }
+    } finally {
+        if (!result.done) close(winner);
+    }
+}
+
+async function* combining(iterators: AsyncIterator<any>[]): AsyncIterable<any[]> {
+    const latest: any[] = new Array(iterators.length);
+    const seen = new Set<number>();
+    for await (const [index, value] of notifications(iterators)) {
+        latest[index] = value;
+        seen.add(index);
+        if (seen.size === iterators.length) yield [...latest];
+    }
+}
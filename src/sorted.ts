@@ -0,0 +1,145 @@
+import {ascending, Comparator} from "./collections";
+import {AVLTree} from "./avltree";
+
+function equal(a: any, b: any): boolean {
+    if (a === b) return true;
+    return a !== null && typeof a == 'object' && typeof a.equals == 'function' && a.equals(b);
+}
+
+export class SortedMap<K, V> implements Iterable<[K, V]> {
+    private constructor(private readonly tree: AVLTree<K, V>) {
+    }
+
+    static empty<K, V>(comparator: Comparator<K> = ascending): SortedMap<K, V> {
+        return new SortedMap<K, V>(AVLTree.empty<K, V>(comparator));
+    }
+
+    static of<K, V>(entries: Iterable<[K, V]>, comparator: Comparator<K> = ascending): SortedMap<K, V> {
+        let map = SortedMap.empty<K, V>(comparator);
+        for (const [key, value] of entries) map = map.set(key, value);
+        return map;
+    }
+
+    get comparator(): Comparator<K> {
+        return this.tree.comparator;
+    }
+
+    get size(): number {
+        return this.tree.size;
+    }
+
+    get isEmpty(): boolean {
+        return this.tree.isEmpty;
+    }
+
+    has(key: K): boolean {
+        return this.tree.contains(key);
+    }
+
+    get(key: K): V | undefined {
+        return this.tree.lookup(key);
+    }
+
+    set(key: K, value: V): SortedMap<K, V> {
+        return new SortedMap(this.tree.insert(key, value));
+    }
+
+    delete(key: K): SortedMap<K, V> {
+        if (!this.has(key)) return this;
+        return new SortedMap(this.tree.delete(key).tree);
+    }
+
+    keys(): Iterable<K> {
+        return this.tree.keys();
+    }
+
+    values(): Iterable<V> {
+        return this.tree.values();
+    }
+
+    entries(): Iterable<[K, V]> {
+        return this.tree.entries();
+    }
+
+    [Symbol.iterator](): Iterator<[K, V]> {
+        return this.tree.entries()[Symbol.iterator]();
+    }
+
+    equals(other: any): boolean {
+        if (this === other) return true;
+        if (!(other instanceof SortedMap) || this.size !== other.size) return false;
+        const iterator = other[Symbol.iterator]();
+        for (const [key, value] of this) {
+            const [otherKey, otherValue] = iterator.next().value;
+            if (this.comparator(key, otherKey) !== 0 || !equal(value, otherValue)) return false;
+        }
+        return true;
+    }
+
+    toString(): string {
+        const entries: string[] = [];
+        for (const [key, value] of this) entries.push(`${key}=${value}`);
+        return `SortedMap(${entries.join(', ')})`;
+    }
+}
+
+export class SortedSet<K> implements Iterable<K> {
+    private constructor(private readonly map: SortedMap<K, K>) {
+    }
+
+    static empty<K>(comparator: Comparator<K> = ascending): SortedSet<K> {
+        return new SortedSet<K>(SortedMap.empty<K, K>(comparator));
+    }
+
+    static of<K>(keys: Iterable<K>, comparator: Comparator<K> = ascending): SortedSet<K> {
+        let set = SortedSet.empty<K>(comparator);
+        for (const key of keys) set = set.add(key);
+        return set;
+    }
+
+    get comparator(): Comparator<K> {
+        return this.map.comparator;
+    }
+
+    get size(): number {
+        return this.map.size;
+    }
+
+    get isEmpty(): boolean {
+        return this.map.isEmpty;
+    }
+
+    has(key: K): boolean {
+        return this.map.has(key);
+    }
+
+    add(key: K): SortedSet<K> {
+        if (this.has(key)) return this;
+        return new SortedSet(this.map.set(key, key));
+    }
+
+    delete(key: K): SortedSet<K> {
+        if (!this.has(key)) return this;
+        return new SortedSet(this.map.delete(key));
+    }
+
+    [Symbol.iterator](): Iterator<K> {
+        return this.map.keys()[Symbol.iterator]();
+    }
+
+    equals(other: any): boolean {
+        if (this === other) return true;
+        if (!(other instanceof SortedSet) || this.size !== other.size) return false;
+        const iterator = other[Symbol.iterator]();
+        for (const key of this) {
+            if (this.comparator(key, iterator.next().value) !== 0) return false;
+        }
+        return true;
+    }
+
+    toString(): string {
+        const keys: string[] = [];
+        for (const key of this) keys.push(`${key}`);
+        return `SortedSet(${keys.join(', ')})`;
+    }
+}
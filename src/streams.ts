@@ -0,0 +1,87 @@
+import {EventEmitter} from 'events';
+import {Readable, Writable} from 'stream';
+
+function once(emitter: EventEmitter, ...events: string[]): Promise<[string, any]> {
+    return new Promise(resolve => {
+        const listeners = events.map(event => {
+            const listener = (value: any) => {
+                listeners.forEach(([e, l]) => emitter.removeListener(e, l));
+                resolve([event, value]);
+            };
+            emitter.on(event, listener);
+            return [event, listener] as [string, (value: any) => void];
+        });
+    });
+}
+
+/** Streams that have ended or been destroyed never emit 'readable' or 'end' again */
+function finished(stream: Readable): boolean {
+    const state = stream as Readable & { readableEnded?: boolean, destroyed?: boolean };
+    return Boolean(state.readableEnded || state.destroyed);
+}
+
+/**
+ * Reads the stream in paused mode, so nothing more than the stream's highWaterMark is buffered
+ * while the consumer is busy. Stopping early destroys the stream.
+ */
+export async function* fromReadable<T = Buffer | string>(stream: Readable): AsyncIterable<T> {
+    let ended = false;
+    let error: Error | undefined;
+    const onEnd = () => ended = true;
+    const onError = (e: Error) => error = e;
+    stream.on('end', onEnd);
+    stream.on('error', onError);
+    try {
+        while (true) {
+            const chunk = stream.read();
+            if (chunk !== null) {
+                yield chunk;
+                continue;
+            }
+            if (error) throw error;
+            if (ended || finished(stream)) return;
+            // destroying the stream without an error only emits 'close'
+            await once(stream, 'readable', 'end', 'error', 'close');
+        }
+    } finally {
+        stream.removeListener('end', onEnd);
+        stream.removeListener('error', onError);
+        if (!ended && !error) stream.destroy();
+    }
+}
+
+export interface WritableOptions {
+    end?: boolean;
+}
+
+/** Streams that have ended or been destroyed accept no more writes and never emit 'drain' or 'finish' */
+function closed(stream: Writable): boolean {
+    const state = stream as Writable & { writableEnded?: boolean, destroyed?: boolean };
+    return Boolean(state.writableEnded || state.destroyed);
+}
+
+/**
+ * Writes every chunk to the stream, only pulling the next chunk from the source once the stream has drained.
+ * Stops, closing the source, when the stream is destroyed (e.g. the client of a response went away).
+ */
+export async function toWritable(iterable: Iterable<any> | AsyncIterable<any>, stream: Writable, {end = true}: WritableOptions = {}): Promise<void> {
+    let error: Error | undefined;
+    const onError = (e: Error) => error = e;
+    stream.on('error', onError);
+    try {
+        for await (const chunk of iterable as AsyncIterable<any>) {
+            if (closed(stream)) return;
+            if (!stream.write(chunk) && !closed(stream)) await once(stream, 'drain', 'error', 'close');
+            if (error) throw error;
+            if (closed(stream)) return;
+        }
+        if (end && !closed(stream)) {
+            const finished = once(stream, 'finish', 'error');
+            stream.end();
+            const [event, value] = await finished;
+            if (event === 'error') throw value;
+        }
+    } finally {
+        stream.removeListener('error', onError);
+    }
+}
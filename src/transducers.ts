@@ -1,5 +1,6 @@
-import {array, ascending, Comparator, isAsyncIterable, isIterable, Mapper, Reducer} from "./collections";
+import {array, ascending, close, Comparator, isAsyncIterable, isIterable, isPromiseLike, Mapper, Reducer} from "./collections";
 import {Predicate} from "./predicates";
+import {defaultScheduler, delay, Scheduler, Timer} from "./scheduler";
 
 export interface Transducer<A, B> {
     sync(iterable: Iterable<A>): Iterable<B>;
@@ -82,6 +83,58 @@ export function map<A, B>(mapper: Mapper<A, B>): MapTransducer<A, B> {
     return new MapTransducer(mapper);
 }
 
+export interface MapAsyncOptions {
+    concurrency?: number;
+    ordered?: boolean;
+}
+
+type Settled<B> = { value: B } | { error: any };
+
+function settle<B>(promise: PromiseLike<B>): Promise<Settled<B>> {
+    return Promise.resolve(promise).then(value => ({value}), error => ({error}));
+}
+
+export class MapAsyncTransducer<A, B> implements Transducer<A, B> {
+    constructor(public mapper: Mapper<A, PromiseLike<B>>, public concurrency: number, public ordered: boolean) {
+    }
+
+    async* async_(iterable: AsyncIterable<A>): AsyncIterable<B> {
+        const iterator = iterable[Symbol.asyncIterator]();
+        const running: Promise<Settled<B>>[] = [];
+        let done = false;
+        try {
+            while (true) {
+                while (!done && running.length < this.concurrency) {
+                    const result = await iterator.next();
+                    if (result.done) done = true;
+                    else running.push(settle(this.mapper(result.value)));
+                }
+                if (running.length === 0) return;
+                const settled = await (this.ordered ? running.shift()! : this.completed(running));
+                if ('error' in settled) throw settled.error;
+                yield settled.value;
+            }
+        } finally {
+            if (!done) close(iterator);
+        }
+    }
+
+    private async completed(running: Promise<Settled<B>>[]): Promise<Settled<B>> {
+        const [index, settled] = await Promise.race(running.map((p, i) => p.then(s => [i, s] as [number, Settled<B>])));
+        running.splice(index, 1);
+        return settled;
+    }
+
+    * sync(iterable: Iterable<A>): Iterable<B> {
+        throw new Error("Unsupported operation exception");
+    }
+}
+
+export function mapAsync<A, B>(mapper: Mapper<A, PromiseLike<B>>, {concurrency = 1, ordered = true}: MapAsyncOptions = {}): MapAsyncTransducer<A, B> {
+    if (concurrency < 1) throw new Error("concurrency must be at least 1");
+    return new MapAsyncTransducer(mapper, concurrency, ordered);
+}
+
 export class ZipTransducer<A, B> implements Transducer<A, [A, B]> {
     constructor(public other: Iterable<B> | AsyncIterable<B>) {
     }
@@ -90,10 +143,18 @@ export class ZipTransducer<A, B> implements Transducer<A, [A, B]> {
         if (!isAsyncIterable(this.other)) throw new Error("Unsupported operation exception");
         const iteratorA = iterable[Symbol.asyncIterator]();
         const iteratorB = this.other[Symbol.asyncIterator]();
-        while (true) {
-            const [resultA, resultB] = await Promise.all([iteratorA.next(), iteratorB.next()]);
-            if (resultA.done || resultB.done) return;
-            yield [resultA.value, resultB.value];
+        let doneA = false, doneB = false;
+        try {
+            while (true) {
+                const [resultA, resultB] = await Promise.all([iteratorA.next(), iteratorB.next()]);
+                doneA = !!resultA.done;
+                doneB = !!resultB.done;
+                if (doneA || doneB) return;
+                yield [resultA.value, resultB.value];
+            }
+        } finally {
+            if (!doneA) close(iteratorA);
+            if (!doneB) close(iteratorB);
         }
     }
 
@@ -101,10 +162,20 @@ export class ZipTransducer<A, B> implements Transducer<A, [A, B]> {
         if (!isIterable(this.other)) throw new Error("Unsupported operation exception");
         const iteratorA = iterable[Symbol.iterator]();
         const iteratorB = this.other[Symbol.iterator]();
-        while (true) {
-            const resultA = iteratorA.next(), resultB = iteratorB.next();
-            if (resultA.done || resultB.done) return;
-            yield [resultA.value, resultB.value];
+        let doneA = false, doneB = false;
+        try {
+            while (true) {
+                const resultA = iteratorA.next();
+                doneA = !!resultA.done;
+                if (doneA) return;
+                const resultB = iteratorB.next();
+                doneB = !!resultB.done;
+                if (doneB) return;
+                yield [resultA.value, resultB.value];
+            }
+        } finally {
+            if (!doneA) close(iteratorA);
+            if (!doneB) close(iteratorB);
         }
     }
 }
@@ -163,19 +234,62 @@ export function find<A>(predicate: Predicate<A>): Transducer<A, A> {
     return compose(filter(predicate), first());
 }
 
+export class FinallyTransducer<A> implements Transducer<A, A> {
+    constructor(public callback: () => void | PromiseLike<void>) {
+    }
+
+    async* async_(iterable: AsyncIterable<A>): AsyncIterable<A> {
+        try {
+            yield* iterable;
+        } finally {
+            await this.callback();
+        }
+    }
+
+    * sync(iterable: Iterable<A>): Iterable<A> {
+        try {
+            yield* iterable;
+        } finally {
+            this.callback();
+        }
+    }
+}
+
+/**
+ * Runs the callback once iteration ends, whether the source completed, threw or the consumer stopped early
+ */
+export function onComplete<A>(callback: () => void | PromiseLike<void>): FinallyTransducer<A> {
+    return new FinallyTransducer(callback);
+}
+
+// alias
+export const finally_ = onComplete;
+
 export class CompositeTransducer<A, B, C> implements Transducer<A, C> {
     constructor(public a: Transducer<A, B>, public b: Transducer<B, C>) {
     }
 
     async_(iterator: AsyncIterable<A>): AsyncIterable<C> {
-        return this.b.async_(this.a.async_(iterator));
+        return this.b.async_(restartableAsync(this.a, iterator));
     }
 
     sync(iterator: Iterable<A>): Iterable<C> {
-        return this.b.sync(this.a.sync(iterator));
+        return this.b.sync(restartable(this.a, iterator));
     }
 }
 
+/**
+ * Applies the transducer again every time the result is iterated, so a later stage (see retry)
+ * can restart the earlier stages together with their source
+ */
+export function restartable<A, B>(transducer: Transducer<A, B>, iterable: Iterable<A>): Iterable<B> {
+    return {[Symbol.iterator]: () => transducer.sync(iterable)[Symbol.iterator]()};
+}
+
+export function restartableAsync<A, B>(transducer: Transducer<A, B>, iterable: AsyncIterable<A>): AsyncIterable<B> {
+    return {[Symbol.asyncIterator]: () => transducer.async_(iterable)[Symbol.asyncIterator]()};
+}
+
 export function compose<A, B, C>(a: Transducer<A, B>, b: Transducer<B, C>): CompositeTransducer<A, B, C> {
     return new CompositeTransducer(a, b);
 }
@@ -189,6 +303,114 @@ export function* decompose(transducer: Transducer<any, any>): Iterable<Transduce
     }
 }
 
+const enum Fusible {Map, Filter, Take, Drop}
+
+function fusible(transducer: Transducer<any, any>): Fusible | undefined {
+    switch (transducer.constructor) {
+        case MapTransducer:
+            return Fusible.Map;
+        case FilterTransducer:
+            return Fusible.Filter;
+        case TakeTransducer:
+            return Fusible.Take;
+        case DropTransducer:
+            return Fusible.Drop;
+    }
+}
+
+const skip = {};
+
+interface FusedState {
+    counts: number[];
+    stop: boolean;
+}
+
+/**
+ * Runs neighbouring map, filter, take and drop transducers in a single loop,
+ * so each element costs one generator frame instead of one per transducer
+ */
+export class FusedTransducer<A, B> implements Transducer<A, B> {
+    private readonly kinds: Fusible[];
+
+    constructor(public transducers: Transducer<any, any>[]) {
+        this.kinds = transducers.map(t => {
+            const kind = fusible(t);
+            if (kind === undefined) throw new Error(`Can not fuse ${t.constructor.name}`);
+            return kind;
+        });
+    }
+
+    async* async_(iterable: AsyncIterable<A>): AsyncIterable<B> {
+        const state = this.state();
+        if (state.stop) return;
+        for await (const a of iterable) {
+            const value = this.apply(state, a);
+            if (value !== skip) yield value;
+            if (state.stop) return;
+        }
+    }
+
+    * sync(iterable: Iterable<A>): Iterable<B> {
+        const state = this.state();
+        if (state.stop) return;
+        for (const a of iterable) {
+            const value = this.apply(state, a);
+            if (value !== skip) yield value;
+            if (state.stop) return;
+        }
+    }
+
+    private state(): FusedState {
+        const counts = this.transducers.map(t => t instanceof TakeTransducer || t instanceof DropTransducer ? t.count : 0);
+        const stop = this.kinds.some((kind, i) => kind === Fusible.Take && counts[i] < 1);
+        return {counts, stop};
+    }
+
+    private apply(state: FusedState, a: A): any {
+        const {transducers, kinds} = this;
+        let value: any = a;
+        for (let i = 0; i < kinds.length; i++) {
+            switch (kinds[i]) {
+                case Fusible.Map:
+                    value = (transducers[i] as MapTransducer<any, any>).mapper(value);
+                    break;
+                case Fusible.Filter:
+                    if (!(transducers[i] as FilterTransducer<any>).predicate(value)) return skip;
+                    break;
+                case Fusible.Take:
+                    if (--state.counts[i] < 1) state.stop = true;
+                    break;
+                case Fusible.Drop:
+                    if (--state.counts[i] >= 0) return skip;
+                    break;
+            }
+        }
+        return value;
+    }
+}
+
+export function fuse(transducers: Transducer<any, any>[]): Transducer<any, any>[] {
+    const result: Transducer<any, any>[] = [];
+    let run: Transducer<any, any>[] = [];
+    const flush = () => {
+        if (run.length > 1) result.push(new FusedTransducer(run));
+        else result.push(...run);
+        run = [];
+    };
+    for (const transducer of transducers) {
+        for (const t of decompose(transducer)) {
+            if (fusible(t) === undefined) {
+                flush();
+                result.push(t);
+            } else {
+                run.push(t);
+            }
+        }
+    }
+    flush();
+    return result;
+}
+
 export class IntoArray<A> implements Reducer<A, A[]> {
     constructor(public seed: A[] = []) {
     }
@@ -239,18 +461,20 @@ export class TakeTransducer<A> implements Transducer<A, A> {
     }
 
     async* async_(iterable: AsyncIterable<A>): AsyncIterable<A> {
-        if (this.count < 1) return;
+        let count = this.count;
+        if (count < 1) return;
         for await (const a of iterable) {
             yield a;
-            if ((--this.count) < 1) return;
+            if ((--count) < 1) return;
         }
     }
 
     * sync(iterable: Iterable<A>): Iterable<A> {
-        if (this.count < 1) return;
+        let count = this.count;
+        if (count < 1) return;
         for (const a of iterable) {
             yield a;
-            if ((--this.count) < 1) return;
+            if ((--count) < 1) return;
         }
     }
 }
@@ -264,14 +488,16 @@ export class DropTransducer<A> implements Transducer<A, A> {
     }
 
     async* async_(iterable: AsyncIterable<A>): AsyncIterable<A> {
+        let count = this.count;
         for await (const a of iterable) {
-            if (--this.count < 0) yield a;
+            if (--count < 0) yield a;
         }
     }
 
     * sync(iterable: Iterable<A>): Iterable<A> {
+        let count = this.count;
         for (const a of iterable) {
-            if (--this.count < 0) yield a;
+            if (--count < 0) yield a;
         }
     }
 }
@@ -420,6 +646,431 @@ export class WindowedTransducer<A> implements Transducer<A, A[]> {
     }
 }
 
+export class GroupByTransducer<A, K> implements Transducer<A, [K, A[]]> {
+    constructor(public mapper: Mapper<A, K>) {
+    }
+
+    async* async_(iterable: AsyncIterable<A>): AsyncIterable<[K, A[]]> {
+        const groups = new Map<K, A[]>();
+        for await (const a of iterable) {
+            group(groups, this.mapper(a), a);
+        }
+        yield* groups.entries();
+    }
+
+    * sync(iterable: Iterable<A>): Iterable<[K, A[]]> {
+        const groups = new Map<K, A[]>();
+        for (const a of iterable) {
+            group(groups, this.mapper(a), a);
+        }
+        yield* groups.entries();
+    }
+}
+
+function group<A, K>(groups: Map<K, A[]>, key: K, a: A) {
+    const values = groups.get(key);
+    if (values) values.push(a);
+    else groups.set(key, [a]);
+}
+
+export function groupBy<A, K>(mapper: Mapper<A, K>): GroupByTransducer<A, K> {
+    return new GroupByTransducer(mapper);
+}
+
+export class PartitionByTransducer<A, K> implements Transducer<A, [K, A[]]> {
+    constructor(public mapper: Mapper<A, K>) {
+    }
+
+    async* async_(iterable: AsyncIterable<A>): AsyncIterable<[K, A[]]> {
+        let partition: [K, A[]] | undefined;
+        for await (const a of iterable) {
+            const key = this.mapper(a);
+            if (partition && partition[0] === key) {
+                partition[1].push(a);
+                continue;
+            }
+            if (partition) yield partition;
+            partition = [key, [a]];
+        }
+        if (partition) yield partition;
+    }
+
+    * sync(iterable: Iterable<A>): Iterable<[K, A[]]> {
+        let partition: [K, A[]] | undefined;
+        for (const a of iterable) {
+            const key = this.mapper(a);
+            if (partition && partition[0] === key) {
+                partition[1].push(a);
+                continue;
+            }
+            if (partition) yield partition;
+            partition = [key, [a]];
+        }
+        if (partition) yield partition;
+    }
+}
+
+export function partitionBy<A, K>(mapper: Mapper<A, K>): PartitionByTransducer<A, K> {
+    return new PartitionByTransducer(mapper);
+}
 
+export class BufferTimeTransducer<A> implements Transducer<A, A[]> {
+    constructor(public milliseconds: number, public scheduler: Scheduler) {
+    }
 
+    async* async_(iterable: AsyncIterable<A>): AsyncIterable<A[]> {
+        const iterator = iterable[Symbol.asyncIterator]();
+        let buffer: A[] = [];
+        let pending = iterator.next();
+        let timer = new Timer(this.milliseconds, this.scheduler);
+        let done = false;
+        try {
+            while (true) {
+                const result = await Promise.race([pending, timer.promise]);
+                if (!result) {
+                    if (buffer.length > 0) yield buffer;
+                    buffer = [];
+                    timer = new Timer(this.milliseconds, this.scheduler);
+                    continue;
+                }
+                done = !!result.done;
+                if (done) break;
+                buffer.push(result.value);
+                pending = iterator.next();
+            }
+            if (buffer.length > 0) yield buffer;
+        } finally {
+            timer.cancel();
+            if (!done) close(iterator);
+        }
+    }
 
+    * sync(iterable: Iterable<A>): Iterable<A[]> {
+        const start = this.scheduler.now();
+        let buffer: A[] = [];
+        let window = 0;
+        for (const a of iterable) {
+            const current = Math.floor((this.scheduler.now() - start) / this.milliseconds);
+            if (current !== window && buffer.length > 0) {
+                yield buffer;
+                buffer = [];
+            }
+            window = current;
+            buffer.push(a);
+        }
+        if (buffer.length > 0) yield buffer;
+    }
+}
+
+export function bufferTime<A>(milliseconds: number, scheduler: Scheduler = defaultScheduler): BufferTimeTransducer<A> {
+    return new BufferTimeTransducer(milliseconds, scheduler);
+}
+
+export class DebounceTransducer<A> implements Transducer<A, A> {
+    constructor(public milliseconds: number, public scheduler: Scheduler) {
+    }
+
+    async* async_(iterable: AsyncIterable<A>): AsyncIterable<A> {
+        const iterator = iterable[Symbol.asyncIterator]();
+        let latest: IteratorResult<A> | undefined;
+        let timer: Timer | undefined;
+        let pending = iterator.next();
+        let done = false;
+        try {
+            while (true) {
+                const result = await (timer ? Promise.race([pending, timer.promise]) : pending);
+                if (!result) {
+                    timer = undefined;
+                    if (latest) yield latest.value;
+                    latest = undefined;
+                    continue;
+                }
+                done = !!result.done;
+                if (done) break;
+                latest = result;
+                if (timer) timer.cancel();
+                timer = new Timer(this.milliseconds, this.scheduler);
+                pending = iterator.next();
+            }
+            if (latest) yield latest.value;
+        } finally {
+            if (timer) timer.cancel();
+            if (!done) close(iterator);
+        }
+    }
+
+    * sync(iterable: Iterable<A>): Iterable<A> {
+        let latest: { value: A, time: number } | undefined;
+        for (const a of iterable) {
+            const now = this.scheduler.now();
+            if (latest && now - latest.time >= this.milliseconds) yield latest.value;
+            latest = {value: a, time: now};
+        }
+        if (latest) yield latest.value;
+    }
+}
+
+export function debounce<A>(milliseconds: number, scheduler: Scheduler = defaultScheduler): DebounceTransducer<A> {
+    return new DebounceTransducer(milliseconds, scheduler);
+}
+
+export class ThrottleTransducer<A> implements Transducer<A, A> {
+    constructor(public milliseconds: number, public scheduler: Scheduler) {
+    }
+
+    async* async_(iterable: AsyncIterable<A>): AsyncIterable<A> {
+        let timer: Timer | undefined;
+        try {
+            for await (const a of iterable) {
+                if (timer) continue;
+                const current = timer = new Timer(this.milliseconds, this.scheduler);
+                current.promise.then(() => {
+                    if (timer === current) timer = undefined;
+                });
+                yield a;
+            }
+        } finally {
+            if (timer) timer.cancel();
+        }
+    }
+
+    * sync(iterable: Iterable<A>): Iterable<A> {
+        let last: number | undefined;
+        for (const a of iterable) {
+            const now = this.scheduler.now();
+            if (typeof last !== 'undefined' && now - last < this.milliseconds) continue;
+            last = now;
+            yield a;
+        }
+    }
+}
+
+export function throttle<A>(milliseconds: number, scheduler: Scheduler = defaultScheduler): ThrottleTransducer<A> {
+    return new ThrottleTransducer(milliseconds, scheduler);
+}
+
+export class SampleTransducer<A> implements Transducer<A, A> {
+    constructor(public milliseconds: number, public scheduler: Scheduler) {
+    }
+
+    async* async_(iterable: AsyncIterable<A>): AsyncIterable<A> {
+        const iterator = iterable[Symbol.asyncIterator]();
+        let latest: IteratorResult<A> | undefined;
+        let pending = iterator.next();
+        let timer = new Timer(this.milliseconds, this.scheduler);
+        let done = false;
+        try {
+            while (true) {
+                const result = await Promise.race([pending, timer.promise]);
+                if (!result) {
+                    if (latest) yield latest.value;
+                    latest = undefined;
+                    timer = new Timer(this.milliseconds, this.scheduler);
+                    continue;
+                }
+                done = !!result.done;
+                if (done) return;
+                latest = result;
+                pending = iterator.next();
+            }
+        } finally {
+            timer.cancel();
+            if (!done) close(iterator);
+        }
+    }
+
+    * sync(iterable: Iterable<A>): Iterable<A> {
+        const start = this.scheduler.now();
+        let latest: { value: A, period: number } | undefined;
+        for (const a of iterable) {
+            const period = Math.floor((this.scheduler.now() - start) / this.milliseconds);
+            if (latest && latest.period !== period) yield latest.value;
+            latest = {value: a, period};
+        }
+    }
+}
+
+export function sample<A>(milliseconds: number, scheduler: Scheduler = defaultScheduler): SampleTransducer<A> {
+    return new SampleTransducer(milliseconds, scheduler);
+}
+
+export class CatchErrorTransducer<A> implements Transducer<A, A> {
+    constructor(public handler: (error: any) => Iterable<A> | AsyncIterable<A>) {
+    }
+
+    async* async_(iterable: AsyncIterable<A>): AsyncIterable<A> {
+        const iterator = iterable[Symbol.asyncIterator]();
+        let done = false;
+        try {
+            while (true) {
+                let result: IteratorResult<A>;
+                try {
+                    result = await iterator.next();
+                } catch (e) {
+                    done = true;
+                    yield* this.handler(e);
+                    return;
+                }
+                done = !!result.done;
+                if (done) return;
+                yield result.value;
+            }
+        } finally {
+            if (!done) close(iterator);
+        }
+    }
+
+    * sync(iterable: Iterable<A>): Iterable<A> {
+        const iterator = iterable[Symbol.iterator]();
+        let done = false;
+        try {
+            while (true) {
+                let result: IteratorResult<A>;
+                try {
+                    result = iterator.next();
+                } catch (e) {
+                    done = true;
+                    const handled = this.handler(e);
+                    // an async handler can only be consumed from an async source
+                    if (!isIterable(handled)) throw new Error("Unsupported operation exception");
+                    yield* handled;
+                    return;
+                }
+                done = !!result.done;
+                if (done) return;
+                yield result.value;
+            }
+        } finally {
+            if (!done) close(iterator);
+        }
+    }
+}
+
+export function catchError<A>(handler: (error: any) => Iterable<A> | AsyncIterable<A>): CatchErrorTransducer<A> {
+    return new CatchErrorTransducer(handler);
+}
+
+export type Backoff = (attempt: number) => number;
+
+export function constantBackoff(milliseconds: number): Backoff {
+    return () => milliseconds;
+}
+
+export function exponentialBackoff(milliseconds: number, factor: number = 2): Backoff {
+    return attempt => milliseconds * Math.pow(factor, attempt - 1);
+}
+
+/**
+ * Restarts the source when it fails, so it only makes sense for sources that can be iterated more than once
+ * (a Sequence, an Array or the result of defer(factory)). Within a Sequence the earlier stages are restarted too.
+ * Values emitted before the failure will be emitted again. A restart that ends without emitting anything is taken
+ * to be a source that cannot be restarted (like a spent generator), so the failure is rethrown.
+ * The backoff is only applied to async sources, sync sources are restarted immediately.
+ */
+export class RetryTransducer<A> implements Transducer<A, A> {
+    constructor(public count: number, public backoff: Backoff, public scheduler: Scheduler) {
+    }
+
+    async* async_(iterable: AsyncIterable<A>): AsyncIterable<A> {
+        let failure: any;
+        for (let attempt = 1; ; attempt++) {
+            const iterator = iterable[Symbol.asyncIterator]();
+            let done = false, emitted = false;
+            try {
+                while (true) {
+                    let result: IteratorResult<A>;
+                    try {
+                        result = await iterator.next();
+                    } catch (e) {
+                        done = true;
+                        if (attempt > this.count) throw e;
+                        failure = e;
+                        break;
+                    }
+                    done = !!result.done;
+                    if (done) {
+                        if (attempt > 1 && !emitted) throw failure;
+                        return;
+                    }
+                    emitted = true;
+                    yield result.value;
+                }
+            } finally {
+                if (!done) close(iterator);
+            }
+            await delay(this.backoff(attempt), this.scheduler);
+        }
+    }
+
+    * sync(iterable: Iterable<A>): Iterable<A> {
+        let failure: any;
+        for (let attempt = 1; ; attempt++) {
+            const iterator = iterable[Symbol.iterator]();
+            let done = false, emitted = false;
+            try {
+                while (true) {
+                    let result: IteratorResult<A>;
+                    try {
+                        result = iterator.next();
+                    } catch (e) {
+                        done = true;
+                        if (attempt > this.count) throw e;
+                        failure = e;
+                        break;
+                    }
+                    done = !!result.done;
+                    if (done) {
+                        if (attempt > 1 && !emitted) throw failure;
+                        return;
+                    }
+                    emitted = true;
+                    yield result.value;
+                }
+            } finally {
+                if (!done) close(iterator);
+            }
+        }
+    }
+}
+
+export function retry<A>(count: number, backoff: Backoff = constantBackoff(0), scheduler: Scheduler = defaultScheduler): RetryTransducer<A> {
+    return new RetryTransducer(count, backoff, scheduler);
+}
+
+export class RecoverTransducer<A, B> implements Transducer<A, B> {
+    constructor(public mapper: Mapper<A, B | PromiseLike<B>>, public handler: (error: any, a: A) => B) {
+    }
+
+    async* async_(iterable: AsyncIterable<A>): AsyncIterable<B> {
+        for await (const a of iterable) {
+            let b: B;
+            try {
+                b = await this.mapper(a);
+            } catch (e) {
+                b = this.handler(e, a);
+            }
+            yield b;
+        }
+    }
+
+    * sync(iterable: Iterable<A>): Iterable<B> {
+        for (const a of iterable) {
+            let b: B | PromiseLike<B>;
+            try {
+                b = this.mapper(a);
+            } catch (e) {
+                b = this.handler(e, a);
+            }
+            // an async mapper can only be recovered once it settles, which needs an async source
+            if (isPromiseLike(b)) throw new Error("Unsupported operation exception");
+            yield b;
+        }
+    }
+}
+
+/**
+ * Maps every element, turning any element whose mapper fails into the value returned by the handler
+ */
+export function recover<A, B>(mapper: Mapper<A, B | PromiseLike<B>>, handler: (error: any, a: A) => B): RecoverTransducer<A, B> {
+    return new RecoverTransducer(mapper, handler);
+}
@@ -3,46 +3,162 @@ import {lazy} from "./lazy";
 import {characters} from "./characters";
 import {array, ascending, Comparator} from "./collections";
 import {AVLTree} from "./avltree";
+import {RadixTrieJSON} from "./radixtrie";
 
-export class Trie<K, V> {
+export interface TrieJSON<K, V> {
+    value?: V;
+    children?: [K, TrieJSON<K, V>][];
+}
+
+export type TrieBackendJSON<K, V> = TrieJSON<K, V> | RadixTrieJSON<K, V>;
+
+/**
+ * Operations PrefixTree needs from the trie storing its keys, see Trie and RadixTrie
+ */
+export interface TrieBackend<K, V> {
+    readonly value?: V;
+    readonly isEmpty: boolean;
+    readonly keys: K[];
+    readonly height: number;
+
+    contains(key: K[]): boolean;
+
+    lookup(key: K[]): V | undefined;
+
+    match(key: K[]): V[];
+
+    matches(key: K[]): Iterable<V>;
+
+    insert(key: K[], value: V): TrieBackend<K, V>;
+
+    delete(key: K[]): TrieBackend<K, V>;
+
+    merge(other: TrieBackend<K, V>, merge: (a: V, b: V) => V): TrieBackend<K, V>;
+
+    /** Children in key order, each under the label of the edge leading to it */
+    edges(): Iterable<[K[], TrieBackend<K, V>]>;
+
+    /** Every key and its value in key order */
+    entries(): Iterable<[K[], V]>;
+
+    toJSON(): TrieBackendJSON<K, V>;
+}
+
+export class Trie<K, V> implements TrieBackend<K, V> {
     constructor(public readonly comparator: Comparator<K> = ascending,
                 public readonly value?: V,
                 public readonly children: AVLTree<K, Trie<K, V>> = AVLTree.empty(comparator)) {
     }
 
     contains(key: K[]): boolean {
-        return !!this.lookup(key);
+        return typeof this.lookup(key) !== 'undefined';
     }
 
     @lazy get isEmpty(): boolean {
-        return !this.value && this.children.isEmpty;
+        return typeof this.value === 'undefined' && this.children.isEmpty;
     }
 
     lookup(key: K[]): V | undefined {
-        if (key.length == 0) return this.value;
-        const [head, ...tail] = key;
-        const child = this.children.lookup(head);
-        return child && child.lookup(tail);
+        const trie = this.find(key);
+        return trie && trie.value;
     }
 
     match(key: K[]): V[] {
-        if (key.length == 0) return array(this.children.values()).reduce((a, t) => {
-            return a.concat(t.match(key));
-        }, this.value ? [this.value] : []);
-        const [head, ...tail] = key;
-        const child = this.children.lookup(head);
-        return child ? child.match(tail) : [];
+        return array(this.matches(key));
+    }
+
+    /** Values under the key in key order, walking the children lazily */
+    * matches(key: K[]): Iterable<V> {
+        const trie = this.find(key);
+        if (!trie) return;
+        const stack: Trie<K, V>[] = [trie];
+        while (stack.length > 0) {
+            const current = stack.pop()!;
+            if (typeof current.value !== 'undefined') yield current.value;
+            for (const child of current.children.entriesDescending()) stack.push(child[1]);
+        }
     }
 
     insert(key: K[], value: V): Trie<K, V> {
-        if (key.length == 0) return new Trie(this.comparator, value, this.children);
-        const [head, ...tail] = key;
-        const child: Trie<K, V> = (this.children.lookup(head) || new Trie<K, V>(this.comparator)).insert(tail, value);
-        return new Trie(this.comparator, this.value, this.children.insert(head, child));
+        const path: Trie<K, V>[] = [];
+        let trie: Trie<K, V> = this;
+        for (let i = 0; i < key.length; i++) {
+            path.push(trie);
+            trie = trie.children.lookup(key[i]) || new Trie<K, V>(this.comparator);
+        }
+        let result = new Trie(this.comparator, value, trie.children);
+        for (let i = key.length - 1; i >= 0; i--) {
+            const parent = path[i];
+            result = new Trie(this.comparator, parent.value, parent.children.insert(key[i], result));
+        }
+        return result;
+    }
+
+    /** Combines both tries, calling merge for keys holding a value in both */
+    merge(other: TrieBackend<K, V>, merge: (a: V, b: V) => V): Trie<K, V> {
+        if (!(other instanceof Trie)) {
+            let result: Trie<K, V> = this;
+            for (const [key, value] of other.entries()) {
+                const existing = result.lookup(key);
+                result = result.insert(key, typeof existing === 'undefined' ? value : merge(existing, value));
+            }
+            return result;
+        }
+        const value = typeof this.value === 'undefined' ? other.value :
+            typeof other.value === 'undefined' ? this.value : merge(this.value, other.value);
+        return new Trie(this.comparator, value, this.children.union(other.children, (a, b) => a.merge(b, merge)));
+    }
+
+    * edges(): Iterable<[K[], Trie<K, V>]> {
+        for (const [key, child] of this.children.entries()) yield [[key], child];
+    }
+
+    /** Every key and its value in key order */
+    * entries(): Iterable<[K[], V]> {
+        const stack: [K[], Trie<K, V>][] = [[[], this]];
+        while (stack.length > 0) {
+            const [key, current] = stack.pop()!;
+            if (typeof current.value !== 'undefined') yield [key, current.value];
+            for (const [k, child] of current.children.entriesDescending()) stack.push([key.concat([k]), child]);
+        }
     }
 
+    private find(key: K[]): Trie<K, V> | undefined {
+        let trie: Trie<K, V> | undefined = this;
+        for (let i = 0; i < key.length && trie; i++) trie = trie.children.lookup(key[i]);
+        return trie;
+    }
+
+    /** Removes the value at the key, pruning any branch left without values */
     delete(key: K[]): Trie<K, V> {
-        return this.insert(key, undefined as any);
+        const path: Trie<K, V>[] = [];
+        let trie: Trie<K, V> = this;
+        for (let i = 0; i < key.length; i++) {
+            path.push(trie);
+            const child = trie.children.lookup(key[i]);
+            if (!child) return this;
+            trie = child;
+        }
+        if (typeof trie.value === 'undefined') return this;
+        let result = new Trie<K, V>(this.comparator, undefined, trie.children);
+        for (let i = key.length - 1; i >= 0; i--) {
+            const parent = path[i];
+            const children = result.isEmpty ? parent.children.delete(key[i]).tree : parent.children.insert(key[i], result);
+            result = new Trie(this.comparator, parent.value, children);
+        }
+        return result;
+    }
+
+    toJSON(): TrieJSON<K, V> {
+        const json: TrieJSON<K, V> = {};
+        if (typeof this.value !== 'undefined') json.value = this.value;
+        if (!this.children.isEmpty) json.children = array(this.children.entries()).map(([k, t]) => [k, t.toJSON()] as [K, TrieJSON<K, V>]);
+        return json;
+    }
+
+    static fromJSON<K, V>(json: TrieJSON<K, V>, comparator: Comparator<K> = ascending): Trie<K, V> {
+        const children = (json.children || []).map(([k, t]) => [k, Trie.fromJSON(t, comparator)] as [K, Trie<K, V>]);
+        return new Trie(comparator, json.value, AVLTree.fromSorted(children, comparator));
     }
 
     @lazy get keys(): K[] {
@@ -55,16 +171,31 @@ export class Trie<K, V> {
 }
 
 
+export interface CompletionOptions<V> {
+    limit?: number;
+    /** Higher scores come first, equal scores keep key order */
+    score?: (value: V) => number;
+}
+
+interface Ranked {
+    score: number;
+    index: number;
+}
+
+function byRank(a: Ranked, b: Ranked): number {
+    return a.score - b.score || b.index - a.index;
+}
+
 export const DEFAULT_COMPARATOR = new Intl.Collator(undefined, {usage: 'search', sensitivity: 'base'}).compare;
 
 export class PrefixTree<V = string> {
     constructor(private converter = characters,
                 private comparator: Comparator<string> = DEFAULT_COMPARATOR,
-                private trie = new Trie<string, V>(comparator)) {
+                private trie: TrieBackend<string, V> = new Trie<string, V>(comparator)) {
     }
 
     contains(value: string): boolean {
-        return !!this.lookup(value);
+        return typeof this.lookup(value) !== 'undefined';
     }
 
     @lazy get isEmpty(): boolean {
@@ -79,50 +210,306 @@ export class PrefixTree<V = string> {
         return this.trie.lookup(this.converter(key));
     }
 
+    * complete(prefix: string, options: CompletionOptions<V> = {}): Iterable<V> {
+        const {limit = Infinity, score} = options;
+        if (limit <= 0) return;
+        const matches = this.trie.matches(this.converter(prefix));
+        if (!score) {
+            let count = 0;
+            for (const value of matches) {
+                yield value;
+                if (++count >= limit) return;
+            }
+            return;
+        }
+        let best = AVLTree.empty<Ranked, V>(byRank);
+        let index = 0;
+        for (const value of matches) {
+            best = best.insert({score: score(value), index: index++}, value);
+            if (best.size > limit) best = best.removeFirst().tree;
+        }
+        for (const [, value] of best.entriesDescending()) yield value;
+    }
+
     // @ts-ignore
     insert(key: string, value: V = key): PrefixTree<V> {
         return new PrefixTree(this.converter, this.comparator, this.trie.insert(this.converter(key), value));
     }
 
     delete(value: string): PrefixTree<V> {
-        return new PrefixTree(this.converter, this.comparator, this.trie.insert(this.converter(value), undefined as any));
+        return new PrefixTree(this.converter, this.comparator, this.trie.delete(this.converter(value)));
     }
 
     @lazy get keys(): string[] {
         return this.trie.keys;
     }
 
+    merge(other: PrefixTree<V>, merge: (a: V, b: V) => V): PrefixTree<V> {
+        return new PrefixTree(this.converter, this.comparator, this.trie.merge(other.trie, merge));
+    }
+
+    toJSON(): TrieBackendJSON<string, V> {
+        return this.trie.toJSON();
+    }
+
+    /** Loads a Trie backed tree, or any other backend given the function loading its JSON, e.g. RadixTrie.fromJSON */
+    static fromJSON<V = string>(json: TrieJSON<string, V>, converter?: (value: string) => string[], comparator?: Comparator<string>): PrefixTree<V>;
+    static fromJSON<V, J extends TrieBackendJSON<string, V>>(json: J, converter: (value: string) => string[], comparator: Comparator<string>,
+                                                          backend: (json: J, comparator: Comparator<string>) => TrieBackend<string, V>): PrefixTree<V>;
+    static fromJSON<V>(json: TrieBackendJSON<string, V>, converter = characters, comparator: Comparator<string> = DEFAULT_COMPARATOR,
+                       backend: (json: any, comparator: Comparator<string>) => TrieBackend<string, V> = Trie.fromJSON): PrefixTree<V> {
+        return new PrefixTree<V>(converter, comparator, backend(json, comparator));
+    }
+
     @lazy get height(): number {
         return this.trie.height;
     }
 
-    search(key: string, maxDist: number): Result<V>[] {
-        const empty = Row.create(this.converter(key), this.comparator);
-
-        return array(this.trie.children.entries()).reduce((a: Result<V>[], [letter, value]) => {
-            return a.concat(recurse(value, letter, empty, maxDist));
-        }, [] as Result<V>[]);
+    /** Values whose keys are within maxDist edits of the key, closest first */
+    search(key: string, maxDist: number, options: SearchOptions = {}): Result<V>[] {
+        return new FuzzySearch<V>(this.converter(key), this.comparator, maxDist, options).run(this.trie);
     };
 }
 
-function recurse<V>(trie: Trie<string, V>, letter: string, previousRow: Row, maxDist: number): Result<V>[] {
-    const currentRow = previousRow.next(letter);
+export interface SearchOptions {
+    limit?: number;
+    /** Count swapping two adjacent characters as a single edit (Damerau-Levenshtein), defaults to true */
+    transpositions?: boolean;
+    /** Match keys that start with something close to the key, as when the user is still typing */
+    prefix?: boolean;
+}
+
+interface Found {
+    distance: number;
+    index: number;
+}
+
+function byDistance(a: Found, b: Found): number {
+    return a.distance - b.distance || a.index - b.index;
+}
+
+/**
+ * Walks the trie computing one row of the edit distance matrix per depth.
+ * Rows are reused between siblings, so each row is allocated once per depth rather than once per node
+ * (walking the children still allocates an edge tuple per child).
+ */
+class FuzzySearch<V> {
+    private readonly rows: number[][] = [];
+    private readonly letters: string[] = [];
+    private readonly limit: number;
+    private readonly transpositions: boolean;
+    private readonly prefix: boolean;
+    private found = AVLTree.empty<Found, V>(byDistance);
+    private index = 0;
+
+    constructor(private readonly query: string[], private readonly comparator: Comparator<string>,
+                private readonly maxDist: number, {limit = Infinity, transpositions = true, prefix = false}: SearchOptions) {
+        this.limit = limit;
+        this.transpositions = transpositions;
+        this.prefix = prefix;
+        const first: number[] = [];
+        for (let i = 0; i <= query.length; i++) first[i] = i;
+        this.rows[0] = first;
+    }
 
-    const result: Result<V>[] = [];
+    run(trie: TrieBackend<string, V>): Result<V>[] {
+        if (this.limit > 0) this.visit(trie, 1, this.query.length);
+        return array(this.found.entries()).map(([{distance}, value]) => ({value, distance}));
+    }
 
-    if (currentRow.distance <= maxDist && trie.value) {
-        result.push({value: trie.value, distance: currentRow.distance});
+    private get bound(): number {
+        if (this.found.size < this.limit) return this.maxDist;
+        return this.found.last()![0].distance - 1;
     }
 
-    if (currentRow.minimal <= maxDist) {
-        return array(trie.children.entries()).reduce((a, [letter, value]) => {
-            return a.concat(recurse(value, letter, currentRow, maxDist));
-        }, result);
+    private visit(trie: TrieBackend<string, V>, depth: number, prefixDistance: number): void {
+        for (const [label, child] of trie.edges()) {
+            let current = depth - 1, closest = prefixDistance, pruned = false;
+            for (let i = 0; i < label.length && !pruned; i++) {
+                current++;
+                this.letters[current - 1] = label[i];
+                const minimal = this.next(current, label[i]);
+                closest = Math.min(closest, this.rows[current][this.query.length]);
+                pruned = minimal > this.bound && !(this.prefix && closest <= this.bound);
+            }
+            if (pruned) continue;
+            const distance = this.prefix ? closest : this.rows[current][this.query.length];
+            if (typeof child.value !== 'undefined' && distance <= this.bound) this.add(child.value, distance);
+            this.visit(child, current + 1, closest);
+        }
     }
 
-    return result;
+    private next(depth: number, letter: string): number {
+        const query = this.query, previous = this.rows[depth - 1], beforePrevious = this.rows[depth - 2];
+        const row = this.rows[depth] || (this.rows[depth] = new Array(query.length + 1));
+        const previousLetter = this.letters[depth - 2];
+        let minimal = row[0] = depth;
+        for (let column = 1; column <= query.length; column++) {
+            const same = this.comparator(query[column - 1], letter) === 0;
+            let value = Math.min(previous[column] + 1, row[column - 1] + 1, previous[column - 1] + (same ? 0 : 1));
+            if (this.transpositions && depth > 1 && column > 1 &&
+                this.comparator(query[column - 1], previousLetter) === 0 && this.comparator(query[column - 2], letter) === 0) {
+                value = Math.min(value, beforePrevious[column - 2] + 1);
+            }
+            row[column] = value;
+            if (value < minimal) minimal = value;
+        }
+        return minimal;
+    }
+
+    private add(value: V, distance: number): void {
+        this.found = this.found.insert({distance, index: this.index++}, value);
+        if (this.found.size > this.limit) this.found = this.found.removeLast().tree;
+    }
 }
 
+/**
+ * PrefixTree keeping every value inserted under a key rather than replacing it
+ */
+export class MultiPrefixTree<V = string> {
+    constructor(private converter = characters,
+                private comparator: Comparator<string> = DEFAULT_COMPARATOR,
+                private tree = new PrefixTree<V[]>(converter, comparator)) {
+    }
+
+    get isEmpty(): boolean {
+        return this.tree.isEmpty;
+    }
+
+    contains(key: string): boolean {
+        return this.tree.contains(key);
+    }
+
+    lookup(key: string): V[] {
+        return this.tree.lookup(key) || [];
+    }
+
+    match(key: string): V[] {
+        return flatten(this.tree.match(key));
+    }
+
+    insert(this: MultiPrefixTree<string>, key: string): MultiPrefixTree<string>;
+    insert(key: string, value: V): MultiPrefixTree<V>;
+    insert(this: MultiPrefixTree<V | string>, key: string, value: V | string = key): MultiPrefixTree<V | string> {
+        return this.replace(key, this.lookup(key).concat([value]));
+    }
+
+    /** Removes a single value from the key, or every value when none is given */
+    delete(key: string, value?: V): MultiPrefixTree<V> {
+        if (typeof value === 'undefined') return this.replace(key, []);
+        return this.replace(key, this.lookup(key).filter(v => v !== value));
+    }
+
+    merge(other: MultiPrefixTree<V>): MultiPrefixTree<V> {
+        return new MultiPrefixTree(this.converter, this.comparator, this.tree.merge(other.tree, (a, b) => a.concat(b)));
+    }
+
+    private replace(key: string, values: V[]): MultiPrefixTree<V> {
+        const tree = values.length === 0 ? this.tree.delete(key) : this.tree.insert(key, values);
+        return new MultiPrefixTree(this.converter, this.comparator, tree);
+    }
+}
+
+/**
+ * PrefixTree counting how many times each key was inserted, keeping the first spelling seen for the key
+ */
+export class CountingPrefixTree {
+    constructor(private converter = characters,
+                private comparator: Comparator<string> = DEFAULT_COMPARATOR,
+                private tree = new PrefixTree<[string, number]>(converter, comparator)) {
+    }
+
+    get isEmpty(): boolean {
+        return this.tree.isEmpty;
+    }
+
+    contains(key: string): boolean {
+        return this.tree.contains(key);
+    }
+
+    count(key: string): number {
+        const entry = this.tree.lookup(key);
+        return entry ? entry[1] : 0;
+    }
+
+    /** Keys starting with the prefix and their counts, in key order */
+    match(prefix: string): [string, number][] {
+        return this.tree.match(prefix);
+    }
+
+    /** The most frequent keys starting with the prefix */
+    complete(prefix: string, limit?: number): Iterable<[string, number]> {
+        return this.tree.complete(prefix, {limit, score: ([, count]) => count});
+    }
+
+    insert(key: string, count: number = 1): CountingPrefixTree {
+        const entry = this.tree.lookup(key);
+        return this.replace(key, entry ? [entry[0], entry[1] + count] : [key, count]);
+    }
+
+    /** Decrements the count, removing the key once it reaches zero */
+    delete(key: string, count: number = Infinity): CountingPrefixTree {
+        const entry = this.tree.lookup(key);
+        if (!entry) return this;
+        return this.replace(key, [entry[0], entry[1] - count]);
+    }
+
+    merge(other: CountingPrefixTree): CountingPrefixTree {
+        return new CountingPrefixTree(this.converter, this.comparator, this.tree.merge(other.tree, ([key, a], [, b]) => [key, a + b]));
+    }
+
+    private replace(key: string, entry: [string, number]): CountingPrefixTree {
+        const tree = entry[1] <= 0 ? this.tree.delete(key) : this.tree.insert(key, entry);
+        return new CountingPrefixTree(this.converter, this.comparator, tree);
+    }
+}
+
+/**
+ * Indexes every suffix of each key in a Trie, so a prefix walk finds keys containing the query anywhere
+ */
+export class SuffixIndex<V = string> {
+    constructor(private converter = characters,
+                private comparator: Comparator<string> = DEFAULT_COMPARATOR,
+                private trie = new Trie<string, V[]>(comparator)) {
+    }
+
+    get isEmpty(): boolean {
+        return this.trie.isEmpty;
+    }
+
+    /** Values whose key contains the query */
+    match(query: string): V[] {
+        return unique(flatten(this.trie.match(this.converter(query))));
+    }
+
+    /** Values whose key ends with the query */
+    endsWith(query: string): V[] {
+        return unique(this.trie.lookup(this.converter(query)) || []);
+    }
+
+    insert(this: SuffixIndex<string>, key: string): SuffixIndex<string>;
+    insert(key: string, value: V): SuffixIndex<V>;
+    insert(this: SuffixIndex<V | string>, key: string, value: V | string = key): SuffixIndex<V | string> {
+        return this.update(key, values => values.concat([value]));
+    }
+
+    delete(this: SuffixIndex<string>, key: string): SuffixIndex<string>;
+    delete(key: string, value: V): SuffixIndex<V>;
+    delete(this: SuffixIndex<V | string>, key: string, value: V | string = key): SuffixIndex<V | string> {
+        return this.update(key, values => values.filter(v => v !== value));
+    }
+
+    private update(key: string, mapper: (values: V[]) => V[]): SuffixIndex<V> {
+        const keys = this.converter(key);
+        let trie = this.trie;
+        for (let i = 0; i < keys.length; i++) {
+            const suffix = keys.slice(i);
+            const values = mapper(trie.lookup(suffix) || []);
+            trie = values.length === 0 ? trie.delete(suffix) : trie.insert(suffix, values);
+        }
+        return new SuffixIndex(this.converter, this.comparator, trie);
+    }
+}
 
 export class Row<K = string> {
     private constructor(public keys: K[], public values: number[], private comparator: Comparator<K>) {
@@ -1,7 +1,18 @@
 import {assert} from 'chai';
-import {AVLTree} from "../src/avltree";
+import {AVLTree, diff} from "../src/avltree";
 import {array} from "../src/collections";
 
+type Branch<K, V> = AVLTree<K, V> & { left: AVLTree<K, V>, right: AVLTree<K, V> };
+
+/** Checks every subtree, returning the height of the tree */
+function assertBalanced<K, V>(tree: AVLTree<K, V>): number {
+    if (tree.isEmpty) return 0;
+    const {left, right} = tree as Branch<K, V>;
+    const leftHeight = assertBalanced(left), rightHeight = assertBalanced(right);
+    assert.isAtMost(Math.abs(leftHeight - rightHeight), 1);
+    return Math.max(leftHeight, rightHeight) + 1;
+}
+
 describe("AVLTree", function () {
     const tree = AVLTree.empty<string, string>();
 
@@ -65,6 +76,25 @@ describe("AVLTree", function () {
             .delete(3).tree.toString(), "((( 0=null ) 1=null ) 2=null (( 4=null ) 5=null ( 6=null )))");
     });
 
+    it('stays balanced through random inserts and deletes', function () {
+        let seed = 42;
+        const random = () => (seed = seed * 16807 % 2147483647) % 100;
+        let tree = AVLTree.empty<number, null>();
+        const expected = new Set<number>();
+        for (let i = 0; i < 600; i++) {
+            const key = random();
+            if (i % 3 == 0) {
+                tree = tree.delete(key).tree;
+                expected.delete(key);
+            } else {
+                tree = tree.insert(key, null);
+                expected.add(key);
+            }
+            assertBalanced(tree);
+        }
+        assert.deepEqual(array(tree.keys()), Array.from(expected).sort((a, b) => a - b));
+    });
+
     it('can iterate over keys', function () {
         const tree = AVLTree.empty<number, null>().insert(0, null).insert(1, null).insert(2, null)
             .insert(3, null).insert(4, null).insert(5, null).insert(6, null);
@@ -80,4 +110,209 @@ describe("AVLTree", function () {
         const tree = AVLTree.empty<number, string>().insert(0, 'a').insert(1, 'b').insert(2, 'c');
         assert.deepEqual(array(tree.entries()), [[0,'a'], [1,'b'], [2,'c']]);
     });
-});
\ No newline at end of file
+
+    it('can iterate over entries in descending order', function () {
+        const tree = AVLTree.empty<number, string>().insert(0, 'a').insert(1, 'b').insert(2, 'c');
+        assert.deepEqual(array(tree.entriesDescending()), [[2,'c'], [1,'b'], [0,'a']]);
+    });
+
+    it('iterates large trees in both directions', function () {
+        const tree = AVLTree.fromSorted(Array.from({length: 100000}, (_, i) => [i, i] as [number, number]));
+        let expected = 0;
+        for (const key of tree.keys()) assert.equal(key, expected++);
+        assert.equal(expected, 100000);
+        for (const [key] of tree.entriesDescending()) assert.equal(key, --expected);
+    });
+
+    describe('navigation', function () {
+        const tree = AVLTree.empty<number, string>().insert(10, 'a').insert(20, 'b').insert(30, 'c')
+            .insert(40, 'd').insert(50, 'e');
+        const empty = AVLTree.empty<number, string>();
+
+        it('supports first and last', function () {
+            assert.deepEqual(tree.first(), [10, 'a']);
+            assert.deepEqual(tree.last(), [50, 'e']);
+            assert.isUndefined(empty.first());
+            assert.isUndefined(empty.last());
+        });
+
+        it('supports floor and ceiling', function () {
+            assert.deepEqual(tree.floor(30), [30, 'c']);
+            assert.deepEqual(tree.floor(35), [30, 'c']);
+            assert.isUndefined(tree.floor(5));
+            assert.deepEqual(tree.ceiling(30), [30, 'c']);
+            assert.deepEqual(tree.ceiling(35), [40, 'd']);
+            assert.isUndefined(tree.ceiling(55));
+        });
+
+        it('supports lower and higher', function () {
+            assert.deepEqual(tree.lower(30), [20, 'b']);
+            assert.deepEqual(tree.lower(35), [30, 'c']);
+            assert.isUndefined(tree.lower(10));
+            assert.deepEqual(tree.higher(30), [40, 'd']);
+            assert.deepEqual(tree.higher(25), [30, 'c']);
+            assert.isUndefined(tree.higher(50));
+        });
+
+        it('supports range with inclusive and exclusive bounds', function () {
+            assert.deepEqual(array(tree.range(20, 40)), [[20, 'b'], [30, 'c'], [40, 'd']]);
+            assert.deepEqual(array(tree.range(20, 40, false, false)), [[30, 'c']]);
+            assert.deepEqual(array(tree.range(15, 45, false, false)), [[20, 'b'], [30, 'c'], [40, 'd']]);
+            assert.deepEqual(array(tree.range(20, 40, true, false)), [[20, 'b'], [30, 'c']]);
+            assert.deepEqual(array(tree.range(60, 70)), []);
+        });
+
+        it('only visits the subtrees inside the range', function () {
+            let comparisons = 0;
+            const counting = (a: number, b: number) => (comparisons++, a - b);
+            let big = AVLTree.empty<number, null>(counting);
+            for (let i = 0; i < 1024; i++) big = big.insert(i, null);
+            comparisons = 0;
+            assert.deepEqual(array(big.range(500, 502)).map(([k]) => k), [500, 501, 502]);
+            assert.isBelow(comparisons, 60);
+        });
+
+        it('works with Date keys', function () {
+            const byTime = (a: Date, b: Date) => a.getTime() - b.getTime();
+            const buckets = AVLTree.empty<Date, string>(byTime)
+                .insert(new Date('2000-01-01T00:00:00Z'), 'midnight')
+                .insert(new Date('2000-01-01T06:00:00Z'), 'morning')
+                .insert(new Date('2000-01-01T12:00:00Z'), 'noon');
+            assert.equal(buckets.floor(new Date('2000-01-01T07:30:00Z'))![1], 'morning');
+        });
+    });
+
+    describe('order statistics', function () {
+        const tree = AVLTree.empty<string, number>().insert('c', 2).insert('a', 0).insert('e', 4)
+            .insert('b', 1).insert('d', 3);
+
+        it('supports size', function () {
+            assert.equal(AVLTree.empty().size, 0);
+            assert.equal(tree.size, 5);
+            assert.equal(tree.delete('c').tree.size, 4);
+            assert.equal(tree.insert('c', 5).size, 5);
+        });
+
+        it('supports indexOf', function () {
+            assert.deepEqual(['a', 'b', 'c', 'd', 'e'].map(k => tree.indexOf(k)), [0, 1, 2, 3, 4]);
+            assert.equal(tree.indexOf('z'), -1);
+            assert.equal(tree.indexOf('0'), -1);
+        });
+
+        it('supports at', function () {
+            assert.deepEqual(tree.at(0), ['a', 0]);
+            assert.deepEqual(tree.at(3), ['d', 3]);
+            assert.isUndefined(tree.at(5));
+            assert.isUndefined(tree.at(-1));
+        });
+
+        it('supports slice', function () {
+            assert.deepEqual(array(tree.slice(1, 3)), [['b', 1], ['c', 2]]);
+            assert.deepEqual(array(tree.slice(3)), [['d', 3], ['e', 4]]);
+            assert.deepEqual(array(tree.slice()).length, 5);
+            assert.deepEqual(array(tree.slice(4, 10)), [['e', 4]]);
+            assert.deepEqual(array(tree.slice(3, 3)), []);
+        });
+
+        it('can page through a large tree', function () {
+            let big = AVLTree.empty<number, null>();
+            for (let i = 0; i < 1000; i++) big = big.insert(i, null);
+            assert.deepEqual(array(big.slice(370, 380)).map(([k]) => k), [370, 371, 372, 373, 374, 375, 376, 377, 378, 379]);
+            assert.equal(big.indexOf(737), 737);
+            assert.deepEqual(big.at(737), [737, null]);
+        });
+    });
+
+    describe('bulk operations', function () {
+        function range(from: number, to: number, step: number = 1): [number, string][] {
+            const result: [number, string][] = [];
+            for (let i = from; i < to; i += step) result.push([i, `v${i}`]);
+            return result;
+        }
+
+        it('can build a balanced tree from sorted entries', function () {
+            const tree = AVLTree.fromSorted(range(0, 7));
+            assert.equal(tree.toString(), "((( 0=v0 ) 1=v1 ( 2=v2 )) 3=v3 (( 4=v4 ) 5=v5 ( 6=v6 )))");
+            const big = AVLTree.fromSorted(range(0, 1000));
+            assertBalanced(big);
+            assert.equal(big.size, 1000);
+            assert.equal(big.lookup(999), 'v999');
+            assert.isTrue(AVLTree.fromSorted([]).isEmpty);
+        });
+
+        it('supports union with a merge function', function () {
+            const a = AVLTree.fromSorted<number, number>([[1, 1], [2, 2], [3, 3]]);
+            const b = AVLTree.fromSorted<number, number>([[3, 30], [4, 40]]);
+            assert.deepEqual(array(a.union(b).entries()), [[1, 1], [2, 2], [3, 30], [4, 40]]);
+            assert.deepEqual(array(a.union(b, (x, y) => x + y).entries()), [[1, 1], [2, 2], [3, 33], [4, 40]]);
+        });
+
+        it('supports intersection with a merge function', function () {
+            const a = AVLTree.fromSorted<number, number>([[1, 1], [2, 2], [3, 3]]);
+            const b = AVLTree.fromSorted<number, number>([[2, 20], [3, 30], [4, 40]]);
+            assert.deepEqual(array(a.intersection(b).entries()), [[2, 20], [3, 30]]);
+            assert.deepEqual(array(a.intersection(b, (x) => x).entries()), [[2, 2], [3, 3]]);
+        });
+
+        it('supports difference', function () {
+            const a = AVLTree.fromSorted<number, number>([[1, 1], [2, 2], [3, 3]]);
+            const b = AVLTree.fromSorted<number, number>([[2, 20], [4, 40]]);
+            assert.deepEqual(array(a.difference(b).entries()), [[1, 1], [3, 3]]);
+            assert.deepEqual(array(b.difference(a).entries()), [[4, 40]]);
+        });
+
+        it('keeps large results balanced', function () {
+            const evens = AVLTree.fromSorted(range(0, 2000, 2));
+            const threes = AVLTree.fromSorted(range(0, 3000, 3));
+            const union = evens.union(threes);
+            const intersection = evens.intersection(threes);
+            const difference = evens.difference(threes);
+            [union, intersection, difference].forEach(assertBalanced);
+            assert.equal(union.size, 1000 + 1000 - 334);
+            assert.deepEqual(array(intersection.keys()), range(0, 2000, 6).map(([k]) => k));
+            assert.equal(difference.size, 1000 - 334);
+        });
+    });
+
+    it('can be serialised to JSON and back', function () {
+        const tree = AVLTree.empty<number, string>().insert(2, 'b').insert(1, 'a').insert(3, 'c');
+        const json = JSON.stringify(tree);
+        assert.equal(json, '[[1,"a"],[2,"b"],[3,"c"]]');
+        const loaded = AVLTree.fromJSON<number, string>(JSON.parse(json));
+        assert.equal(loaded.toString(), tree.toString());
+    });
+
+    describe('diff', function () {
+        it('yields added, removed and changed entries in key order', function () {
+            const previous = AVLTree.fromSorted<string, number>([['a', 1], ['b', 2], ['c', 3]]);
+            const current = previous.delete('a').tree.insert('b', 20).insert('d', 4);
+            assert.deepEqual(array(diff(previous, current)), [
+                {type: 'removed', key: 'a', value: 1},
+                {type: 'changed', key: 'b', previous: 2, value: 20},
+                {type: 'added', key: 'd', value: 4}
+            ]);
+            assert.deepEqual(array(diff(previous, previous)), []);
+            assert.deepEqual(array(diff(AVLTree.empty<string, number>(), previous)).length, 3);
+        });
+
+        it('supports a custom value equality', function () {
+            const previous = AVLTree.create('a', {id: 1});
+            const current = previous.insert('a', {id: 1});
+            assert.deepEqual(array(diff(previous, current)).length, 1);
+            assert.deepEqual(array(diff(previous, current, (x, y) => x.id === y.id)), []);
+        });
+
+        it('skips subtrees shared between versions', function () {
+            let comparisons = 0;
+            const counting = (a: number, b: number) => (comparisons++, a - b);
+            const previous = AVLTree.fromSorted(Array.from({length: 10000}, (_, i) => [i, i] as [number, number]), counting);
+            const current = previous.insert(5000, -1).delete(20).tree;
+            comparisons = 0;
+            assert.deepEqual(array(diff(previous, current)), [
+                {type: 'removed', key: 20, value: 20},
+                {type: 'changed', key: 5000, previous: 5000, value: -1}
+            ]);
+            assert.isBelow(comparisons, 1000);
+        });
+    });
+});
@@ -0,0 +1,33 @@
+import {range, Sequence} from "../../src/sequence";
+import {drop, filter, map, take, Transducer} from "../../src/transducers";
+
+const size = 1000000;
+
+function pipeline(): Transducer<any, any>[] {
+    return [
+        map((n: number) => n * 3),
+        filter((n: number) => n % 2 == 0),
+        map((n: number) => n + 1),
+        drop(10),
+        filter((n: number) => n % 5 != 0),
+        take(size)
+    ];
+}
+
+function consume(iterable: Iterable<number>): number {
+    let total = 0;
+    for (const value of iterable) total += value;
+    return total;
+}
+
+function time(name: string, run: () => number): number {
+    const start = Date.now();
+    const result = run();
+    const elapsed = Date.now() - start;
+    console.log(`${name}: ${elapsed}ms (result ${result})`);
+    return elapsed;
+}
+
+const unfused = time('unfused', () => consume(pipeline().reduce((r, t) => t.sync(r), range(1, size) as Iterable<any>)));
+const fused = time('fused', () => consume(new Sequence<number>(range(1, size), pipeline())));
+console.log(`speed up: ${(unfused / fused).toFixed(2)}x on ${size} elements`);
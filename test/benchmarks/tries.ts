@@ -0,0 +1,54 @@
+import {DEFAULT_COMPARATOR, PrefixTree} from "../../src/trie";
+import {RadixTrie} from "../../src/radixtrie";
+import {characters} from "../../src/characters";
+
+// Run with --expose-gc so the heap can be measured after a full collection
+const gc: () => void = (global as any).gc;
+if (typeof gc !== 'function') throw new Error('Run with node --expose-gc');
+
+const locales = ['en', 'fr', 'de', 'es', 'it', 'pt', 'nl', 'sv', 'da', 'fi', 'pl', 'cs', 'hu', 'ro', 'tr', 'ru', 'uk', 'el',
+    'ja', 'zh', 'ko', 'ar', 'he', 'hi', 'th', 'vi', 'id', 'ms'];
+
+function names(): string[] {
+    const result: string[] = [];
+    for (const locale of locales) {
+        for (const month of ['long', 'short']) {
+            const format = new Intl.DateTimeFormat(locale, {month, timeZone: 'UTC'} as any);
+            for (let i = 0; i < 12; i++) result.push(format.format(new Date(Date.UTC(2000, i, 1))));
+        }
+        for (const weekday of ['long', 'short']) {
+            const format = new Intl.DateTimeFormat(locale, {weekday, timeZone: 'UTC'} as any);
+            for (let i = 0; i < 7; i++) result.push(format.format(new Date(Date.UTC(2000, 0, 2 + i))));
+        }
+        // Currency names need Intl.DisplayNames (Node 14+) and Intl.supportedValuesOf (Node 18+)
+        const intl = Intl as any;
+        if (typeof intl.DisplayNames === 'function' && typeof intl.supportedValuesOf === 'function') {
+            const currencies = new intl.DisplayNames([locale], {type: 'currency'});
+            for (const code of intl.supportedValuesOf('currency')) result.push(currencies.of(code));
+        }
+    }
+    return result;
+}
+
+const retained: any[] = [];
+
+function measure(name: string, build: () => PrefixTree<string>): number {
+    build();
+    gc();
+    const before = process.memoryUsage().heapUsed;
+    const start = Date.now();
+    const tree = build();
+    const elapsed = Date.now() - start;
+    retained.push(tree);
+    gc();
+    const used = process.memoryUsage().heapUsed - before;
+    console.log(`${name}: ${(used / 1024).toFixed(0)}KB in ${elapsed}ms (${tree.match('').length} values)`);
+    return used;
+}
+
+const data = names();
+console.log(`${data.length} month, weekday and currency names in ${locales.length} locales`);
+const trie = measure('Trie', () => data.reduce((t, n) => t.insert(n), new PrefixTree()));
+const radix = measure('RadixTrie', () => data.reduce((t, n) => t.insert(n),
+    new PrefixTree(characters, DEFAULT_COMPARATOR, new RadixTrie<string, string>(DEFAULT_COMPARATOR))));
+console.log(`memory saving: ${(trie / radix).toFixed(2)}x`);
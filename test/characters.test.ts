@@ -1,4 +1,5 @@
-import {characters, different, splitByRegex} from "../src/characters";
+import {characters, different, NamedRegExp, splitByRegex} from "../src/characters";
+import {array} from "../src/collections";
 import {assert} from 'chai';
 
 describe("difference", function () {
@@ -36,4 +37,40 @@ describe("characters", function () {
         assert.equal(containsLeadingRtlMarker.length, 4);
         assert.equal(characters(containsLeadingRtlMarker).length, 3);
     });
-});
\ No newline at end of file
+});
+
+
+describe("NamedRegExp", function () {
+    it("maps names to the right groups when there are unnamed groups", () => {
+        const regex = NamedRegExp.create('(\\d+)-(?<month>\\d+)-((?<day>\\d+))');
+        assert.deepEqual(regex.match('2000-01-31'), [{name: 'month', value: '01'}, {name: 'day', value: '31'}]);
+    });
+
+    it("ignores non capturing groups, lookarounds, escaped parentheses and character classes", () => {
+        const regex = NamedRegExp.create('(?:a)\\((?<inner>[(x)]+)\\)(?=!)(?<!b)(?<bang>!)');
+        assert.deepEqual(regex.match('a(x(x)!'), [{name: 'inner', value: 'x(x'}, {name: 'bang', value: '!'}]);
+    });
+
+    it("keeps optional groups that did not participate", () => {
+        const regex = NamedRegExp.create('(?<a>a)?(b)(?<c>c)?');
+        assert.deepEqual(regex.match('bc'), [{name: 'a', value: undefined as any}, {name: 'c', value: 'c'}]);
+    });
+
+    it("supports duplicate names", () => {
+        const regex = NamedRegExp.create('(?:(?<digit>\\d)|(x)(?<digit>y))');
+        assert.deepEqual(regex.match('xy'), [{name: 'digit', value: undefined as any}, {name: 'digit', value: 'y'}]);
+        assert.deepEqual(regex.groups('xy'), {digit: 'y'});
+    });
+
+    it("returns groups as a record", () => {
+        const regex = NamedRegExp.create('(?<year>\\d{4})-(\\d{2})-(?<day>\\d{2})');
+        assert.deepEqual(regex.groups('2000-01-31'), {year: '2000', day: '31'});
+        assert.isUndefined(regex.groups('nope'));
+    });
+
+    it("supports exec and iterate with unnamed groups", () => {
+        const regex = NamedRegExp.create('(a|b)(?<n>\\d)');
+        assert.deepEqual(array(regex.exec('a1 b2')), [[{name: 'n', value: '1'}], [{name: 'n', value: '2'}]]);
+        assert.deepEqual(array(regex.iterate('a1 b2')), [[{name: 'n', value: '1'}], ' ', [{name: 'n', value: '2'}]]);
+    });
+});
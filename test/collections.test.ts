@@ -5,6 +5,10 @@ export function assertSync<T>(actual: Iterable<T>, ...expected: T[]) {
     assert.deepEqual(array(actual), expected);
 }
 
+export async function* asyncIterable<T>(...values: T[]): AsyncIterable<T> {
+    yield* values;
+}
+
 export async function assertAsync<T>(iterable: AsyncIterable<T>, ...expected: T[]) {
     assert.deepEqual(await array(iterable), expected);
 }
@@ -0,0 +1,108 @@
+import {assert} from 'chai';
+import {RadixTrie} from "../src/radixtrie";
+import {DEFAULT_COMPARATOR, PrefixTree, Trie} from "../src/trie";
+import {array} from "../src/collections";
+import {characters} from "../src/characters";
+
+function key(value: string): string[] {
+    return value.split('');
+}
+
+describe("RadixTrie", function () {
+    const trie = ['romane', 'romanus', 'romulus', 'rubens', 'ruber', 'rubicon', 'rubicundus']
+        .reduce((t, word) => t.insert(key(word), word), new RadixTrie<string, string>());
+
+    it('supports isEmpty and contains', function () {
+        assert.isTrue(new RadixTrie().isEmpty);
+        assert.isFalse(trie.isEmpty);
+        assert.isTrue(trie.contains(key('romane')));
+        assert.isFalse(trie.contains(key('roman')));
+        assert.isFalse(trie.contains(key('romanesque')));
+    });
+
+    it('supports lookup', function () {
+        assert.equal(trie.lookup(key('rubicon')), 'rubicon');
+        assert.isUndefined(trie.lookup(key('rub')));
+        assert.isUndefined(trie.lookup(key('x')));
+        assert.equal(trie.insert([], 'root').lookup([]), 'root');
+    });
+
+    it('supports match, including a prefix ending half way along an edge', function () {
+        assert.deepEqual(trie.match(key('rom')), ['romane', 'romanus', 'romulus']);
+        assert.deepEqual(trie.match(key('rubic')), ['rubicon', 'rubicundus']);
+        assert.deepEqual(trie.match(key('rubicx')), []);
+        assert.equal(trie.match([]).length, 7);
+    });
+
+    it('compresses chains without values into a single edge', function () {
+        const compressed = new RadixTrie<string, number>().insert(key('test'), 1).insert(key('team'), 2);
+        assert.deepEqual(array(compressed.edges()).map(([label]) => label.join('')), ['te']);
+        assert.deepEqual(array(compressed.children.first()![1].edges()).map(([label]) => label.join('')), ['am', 'st']);
+        assert.equal(compressed.height, 4);
+        assert.sameMembers(compressed.keys, ['t', 'e', 's', 'a', 'm']);
+    });
+
+    it('supports delete and merges edges left with a single child', function () {
+        const compressed = new RadixTrie<string, number>().insert(key('test'), 1).insert(key('team'), 2).insert(key('te'), 3);
+        const deleted = compressed.delete(key('te')).delete(key('team'));
+        assert.deepEqual(array(deleted.edges()).map(([label]) => label.join('')), ['test']);
+        assert.equal(deleted.lookup(key('test')), 1);
+        assert.isTrue(deleted.delete(key('test')).isEmpty);
+        assert.equal(compressed.delete(key('tea')), compressed);
+    });
+
+    it('supports falsy values', function () {
+        const falsy = new RadixTrie<string, number>().insert(key('a'), 0);
+        assert.isTrue(falsy.contains(key('a')));
+        assert.deepEqual(falsy.match([]), [0]);
+    });
+
+    it('supports merge', function () {
+        const a = new RadixTrie<string, number>().insert(key('ab'), 1).insert(key('b'), 2);
+        const b = new RadixTrie<string, number>().insert(key('ab'), 10).insert(key('abc'), 3);
+        assert.deepEqual(array(a.merge(b, (x, y) => x + y).entries()), [[['a', 'b'], 11], [['a', 'b', 'c'], 3], [['b'], 2]]);
+    });
+
+    it('merges with a Trie in either direction', function () {
+        const radix = new RadixTrie<string, number>().insert(key('ab'), 1).insert(key('b'), 2);
+        const plain = new Trie<string, number>().insert(key('ab'), 10).insert(key('abc'), 3);
+        const expected = [[['a', 'b'], 11], [['a', 'b', 'c'], 3], [['b'], 2]];
+        assert.deepEqual(array(radix.merge(plain, (x, y) => x + y).entries()), expected);
+        assert.deepEqual(array(plain.merge(radix, (x, y) => x + y).entries()), expected);
+    });
+
+    it('can be serialised to JSON and back', function () {
+        const loaded = RadixTrie.fromJSON<string, string>(JSON.parse(JSON.stringify(trie)));
+        assert.deepEqual(loaded.match([]), trie.match([]));
+        assert.equal(loaded.insert(key('rubicundo'), 'rubicundo').lookup(key('rubicundo')), 'rubicundo');
+    });
+
+    describe('as a PrefixTree backend', function () {
+        const cities = ['London', 'Londonderry', 'Lisbon', 'Lima', 'Leeds']
+            .reduce((t, city) => t.insert(city), new PrefixTree(characters, DEFAULT_COMPARATOR, new RadixTrie<string, string>(DEFAULT_COMPARATOR)));
+        const plain = ['London', 'Londonderry', 'Lisbon', 'Lima', 'Leeds'].reduce((t, city) => t.insert(city), new PrefixTree());
+
+        it('supports lookup and match', function () {
+            assert.equal(cities.lookup('LONDON'), 'London');
+            assert.deepEqual(cities.match('lon'), ['London', 'Londonderry']);
+            assert.deepEqual(array(cities.complete('l', {limit: 2})), ['Leeds', 'Lima']);
+        });
+
+        it('finds the same fuzzy matches as the plain trie', function () {
+            assert.deepEqual(cities.search('Lodnon', 2), plain.search('Lodnon', 2));
+            assert.deepEqual(cities.search('Lida', 4), plain.search('Lida', 4));
+            assert.deepEqual(cities.search('Lodn', 1, {prefix: true}), plain.search('Lodn', 1, {prefix: true}));
+        });
+
+        it('supports delete', function () {
+            assert.deepEqual(cities.delete('London').match('lon'), ['Londonderry']);
+        });
+
+        it('can be serialised to JSON and loaded back into a RadixTrie', function () {
+            const loaded = PrefixTree.fromJSON(JSON.parse(JSON.stringify(cities)), characters, DEFAULT_COMPARATOR, RadixTrie.fromJSON);
+            assert.deepEqual(loaded.match('lon'), ['London', 'Londonderry']);
+            assert.equal(loaded.insert('Lyon').lookup('lyon'), 'Lyon');
+            assert.deepEqual(loaded.toJSON(), cities.toJSON());
+        });
+    });
+});
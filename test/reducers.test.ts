@@ -0,0 +1,79 @@
+import {assert} from 'chai';
+import {average, count, join, max, min, reduce, toAVLTree, toMap, toObject, toSet, toSortedMap, toSortedSet} from "../src/reducers";
+import {array, descending} from "../src/collections";
+import {sequence} from "../src/sequence";
+import {sum} from "../src/numbers";
+import {asyncIterable} from "./collections.test";
+
+describe("Reducers", () => {
+    interface Cat {
+        name: string;
+        age: number;
+    }
+
+    const freaky: Cat = {name: 'Freaky', age: 17};
+    const fatty: Cat = {name: 'Fatty', age: 18};
+    const cats = [freaky, fatty];
+
+    it("can count", () => {
+        assert.equal(reduce([], count), 0);
+        assert.equal(reduce(['a', 'b', 'c'], count), 3);
+    });
+
+    it("can find the minimum and maximum", () => {
+        assert.equal(reduce([3, 1, 2], min()), 1);
+        assert.equal(reduce([3, 1, 2], max()), 3);
+        assert.equal(reduce([3, 1, 2], min(descending)), 3);
+        assert.equal(reduce([], max()), undefined);
+        assert.equal(reduce(cats, max<Cat>((a, b) => a.age - b.age)), fatty);
+    });
+
+    it("can average", () => {
+        assert.equal(reduce([1, 2, 3, 4], average), 2.5);
+        assert.isNaN(reduce([], average));
+    });
+
+    it("can join strings", () => {
+        assert.equal(reduce(['a', 'b', 'c'], join()), 'a,b,c');
+        assert.equal(reduce(['', 'b'], join('-')), '-b');
+        assert.equal(reduce([], join()), '');
+    });
+
+    it("can collect into a map", () => {
+        const map: Map<string, Cat> = reduce(cats, toMap((c: Cat) => c.name));
+        assert.equal(map.get('Freaky'), freaky);
+        assert.equal(map.size, 2);
+        assert.deepEqual(array(reduce(cats, toMap((c: Cat) => c.name, (c: Cat) => c.age)).entries()), [['Freaky', 17], ['Fatty', 18]]);
+    });
+
+    it("can collect into a set", () => {
+        assert.deepEqual(array(reduce([1, 2, 1, 3], toSet<number>()).values()), [1, 2, 3]);
+    });
+
+    it("can collect into an AVLTree", () => {
+        const tree = reduce(cats, toAVLTree((c: Cat) => c.name, (c: Cat) => c.age));
+        assert.deepEqual(array(tree.entries()), [['Fatty', 18], ['Freaky', 17]]);
+    });
+
+    it("can collect into a sorted map and set", () => {
+        assert.equal(reduce(cats, toSortedMap((c: Cat) => c.name, (c: Cat) => c.age)).toString(), 'SortedMap(Fatty=18, Freaky=17)');
+        assert.equal(reduce([3, 1, 3, 2], toSortedSet<number>(descending)).toString(), 'SortedSet(3, 2, 1)');
+    });
+
+    it("can collect into an object", () => {
+        assert.deepEqual(reduce(cats, toObject((c: Cat) => c.name, (c: Cat) => c.age)), {Freaky: 17, Fatty: 18});
+    });
+
+    it("every reduction starts from a fresh identity", () => {
+        const reducer = toSet<number>();
+        reduce([1, 2], reducer);
+        assert.deepEqual(array(reduce([3], reducer).values()), [3]);
+    });
+
+    it("returns a promise for async sources", async () => {
+        assert.equal(await reduce(asyncIterable(1, 2, 3), sum), 6);
+        assert.equal(await reduce(asyncIterable(1, 2, 3), average), 2);
+        assert.equal(await sequence(asyncIterable('a', 'b')).reduce(join('')), 'ab');
+        assert.equal(sequence([1, 2, 3]).reduce(max()), 3);
+    });
+});
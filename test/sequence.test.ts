@@ -1,8 +1,15 @@
-import {range, sequence} from "../src/sequence";
-import {assertAsync, assertSync} from "./collections.test";
+import {AsyncSequence, combineLatest, concat, defer, merge, race, range, Sequence, sequence} from "../src/sequence";
+import {assertAsync, assertAsyncThrows, assertSync, asyncIterable} from "./collections.test";
 import {CompositeTransducer, drop, find, flatMap, FlatMapTransducer, take, windowed} from "../src/transducers";
 import {assert} from 'chai';
 import {array} from "../src/collections";
+import {sum} from "../src/numbers";
+import {VirtualScheduler} from "../src/scheduler";
+import {asyncTimed} from "./transducers.test";
+
+function tick(): Promise<void> {
+    return new Promise<void>(resolve => setTimeout(resolve, 0));
+}
 
 describe("Sequence", () => {
     it("supports ranges", () => {
@@ -43,4 +50,140 @@ describe("Sequence", () => {
 
         return assertAsync(sequence(asyncRange(1), flatMap((n: number) => [n, n * 2]), take(6)), 1, 2, 2, 4, 3, 6);
     });
+
+    it("can merge sync and async sources in arrival order", async () => {
+        const scheduler = new VirtualScheduler();
+        await assertAsync(merge(
+            asyncTimed(scheduler, [[10, 'a'], [30, 'c']]),
+            asyncTimed(scheduler, [[20, 'b'], [40, 'd']])),
+            'a', 'b', 'c', 'd');
+        assert.sameMembers(await array(merge<number>([1, 2], asyncIterable(3))), [1, 2, 3]);
+    });
+
+    it("can concat sync and async sources", async () => {
+        await assertAsync(concat<number>([1, 2], asyncIterable(3, 4), [5]), 1, 2, 3, 4, 5);
+    });
+
+    it("race follows the first source to emit and closes the others", async () => {
+        const scheduler = new VirtualScheduler();
+        let closed = false;
+        async function* slow() {
+            try {
+                yield* asyncTimed(scheduler, [[50, 'slow']]);
+            } finally {
+                closed = true;
+            }
+        }
+
+        await assertAsync(race(slow(), asyncTimed(scheduler, [[10, 'fast'], [60, 'faster']])), 'fast', 'faster');
+        assert.isTrue(closed);
+    });
+
+    it("can combine the latest values of each source", async () => {
+        const scheduler = new VirtualScheduler();
+        await assertAsync(combineLatest(
+            asyncTimed(scheduler, [[10, 1], [30, 2]]),
+            asyncTimed(scheduler, [[20, 'a'], [40, 'b']])),
+            [1, 'a'], [2, 'a'], [2, 'b']);
+    });
+
+    it("closes every source when the consumer stops early", async () => {
+        const closed: string[] = [];
+        function closing(name: string, source: Iterable<number> | AsyncIterable<number>): AsyncIterable<number> {
+            return (async function* () {
+                try {
+                    yield* source as AsyncIterable<number>;
+                } finally {
+                    closed.push(name);
+                }
+            })();
+        }
+
+        await assertAsync(sequence(merge(closing('a', range(1)), closing('b', range(1))), take(3)), 1, 1, 2);
+        await assertAsync(sequence(concat(closing('c', range(1)), closing('d', range(1))), take(3)), 1, 2, 3);
+        await assertAsync(sequence(combineLatest(closing('e', range(1)), closing('f', range(1))), take(1)), [1, 1]);
+        await tick();
+        assert.sameMembers(closed, ['a', 'b', 'c', 'e', 'f']);
+    });
+
+    it("combined sequences can be iterated more than once", async () => {
+        const merged = merge<number>([1, 2], [3]);
+        assert.sameMembers(await array(merged), [1, 2, 3]);
+        assert.sameMembers(await array(merged), [1, 2, 3]);
+        const concatenated = concat<number>([1, 2], defer(() => asyncIterable(3)));
+        await assertAsync(concatenated, 1, 2, 3);
+        await assertAsync(concatenated, 1, 2, 3);
+        const raced = race<number>([1, 2]);
+        await assertAsync(raced, 1, 2);
+        await assertAsync(raced, 1, 2);
+        const combined = combineLatest([1], ['a']);
+        await assertAsync(combined, [1, 'a']);
+        await assertAsync(combined, [1, 'a']);
+    });
+
+    it("race without sources is empty", async () => {
+        await assertAsync(race());
+    });
+
+    it("propagates errors from any source", async () => {
+        const error = new Error("failed");
+        async function* failing(): AsyncIterable<number> {
+            throw error;
+        }
+
+        await assertAsyncThrows(merge(range(1), failing()), error);
+    });
+
+    it("supports fluent chaining with any number of stages", () => {
+        const result: Sequence<string> = sequence(range(1))
+            .map(n => n * 2)
+            .filter(n => n % 3 != 0)
+            .drop(1)
+            .takeWhile(n => n < 100)
+            .dedupe()
+            .windowed(2)
+            .map(([a, b]) => a + b)
+            .take(3)
+            .map(n => n.toString());
+        assertSync(result, '12', '18', '24');
+        assert.equal(sequence([1, 2, 3, 4]).filter(n => n % 2 == 0).reduce(sum), 6);
+    });
+
+    it("supports fluent chaining on async sequences", async () => {
+        const result: AsyncSequence<[boolean, number[]]> = sequence(asyncIterable(1, 2, 3, 4, 5, 6))
+            .map(n => n + 1)
+            .mapAsync(n => Promise.resolve(n * 10), {concurrency: 2})
+            .groupBy(n => n > 40);
+        await assertAsync(result, [false, [20, 30, 40]], [true, [50, 60, 70]]);
+        assert.equal(await sequence(asyncIterable(1, 2, 3)).drop(1).reduce(sum), 5);
+    });
+
+    it("fluent retry restarts the earlier stages", async () => {
+        const throwsOnce = () => {
+            let thrown = false;
+            return (n: number) => {
+                if (n == 2 && !thrown) {
+                    thrown = true;
+                    throw new Error("failed");
+                }
+                return n;
+            };
+        };
+        assertSync(sequence([1, 2, 3]).map(throwsOnce()).retry(2), 1, 1, 2, 3);
+        await assertAsync(defer(() => asyncIterable(1, 2, 3)).map(throwsOnce()).retry(2, () => 0, new VirtualScheduler()), 1, 1, 2, 3);
+    });
+
+    it("fluent retry rethrows when the source cannot be restarted", async () => {
+        const error = new Error("failed");
+        function* failing(): Iterable<number> {
+            yield 1;
+            throw error;
+        }
+        async function* asyncFailing(): AsyncIterable<number> {
+            yield* failing();
+        }
+
+        assert.throws(() => array(sequence(failing()).map(n => n * 10).retry(2)), Error, "failed");
+        await assertAsyncThrows(sequence(asyncFailing()).map(n => n * 10).retry(2, () => 0, new VirtualScheduler()), error);
+    });
 });
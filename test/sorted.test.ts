@@ -0,0 +1,62 @@
+import {assert} from 'chai';
+import {SortedMap, SortedSet} from "../src/sorted";
+import {array, descending} from "../src/collections";
+
+describe("SortedMap", function () {
+    const map = SortedMap.of<string, number>([['b', 2], ['a', 1], ['c', 3]]);
+
+    it('supports get, has and size', function () {
+        assert.equal(map.get('a'), 1);
+        assert.equal(map.get('d'), undefined);
+        assert.isTrue(map.has('b'));
+        assert.isFalse(map.has('d'));
+        assert.equal(map.size, 3);
+        assert.isTrue(SortedMap.empty().isEmpty);
+    });
+
+    it('is immutable', function () {
+        const updated = map.set('d', 4).set('a', 10).delete('b');
+        assert.equal(map.toString(), 'SortedMap(a=1, b=2, c=3)');
+        assert.equal(updated.toString(), 'SortedMap(a=10, c=3, d=4)');
+        assert.equal(updated.size, 3);
+        assert.equal(map.delete('missing'), map);
+    });
+
+    it('iterates entries in key order', function () {
+        assert.deepEqual(array(map), [['a', 1], ['b', 2], ['c', 3]]);
+        assert.deepEqual(array(map.keys()), ['a', 'b', 'c']);
+        assert.deepEqual(array(map.values()), [1, 2, 3]);
+        assert.deepEqual(array(SortedMap.of<string, number>(map, descending).keys()), ['c', 'b', 'a']);
+    });
+
+    it('supports equality', function () {
+        assert.isTrue(map.equals(SortedMap.of<string, number>([['c', 3], ['a', 1], ['b', 2]])));
+        assert.isFalse(map.equals(map.set('a', 2)));
+        assert.isFalse(map.equals(map.delete('a')));
+        assert.isTrue(SortedMap.of([['a', SortedSet.of([1, 2])]]).equals(SortedMap.of([['a', SortedSet.of([2, 1])]])));
+    });
+});
+
+describe("SortedSet", function () {
+    const set = SortedSet.of([3, 1, 2, 1]);
+
+    it('supports has and size', function () {
+        assert.isTrue(set.has(1));
+        assert.isFalse(set.has(4));
+        assert.equal(set.size, 3);
+        assert.isTrue(SortedSet.empty().isEmpty);
+    });
+
+    it('is immutable', function () {
+        const updated = set.add(4).delete(1);
+        assert.equal(set.toString(), 'SortedSet(1, 2, 3)');
+        assert.equal(updated.toString(), 'SortedSet(2, 3, 4)');
+        assert.equal(set.add(1), set);
+    });
+
+    it('supports equality', function () {
+        assert.isTrue(set.equals(SortedSet.of([1, 2, 3])));
+        assert.isFalse(set.equals(SortedSet.of([1, 2])));
+        assert.isFalse(set.equals(SortedSet.of([1, 2, 4])));
+    });
+});
@@ -0,0 +1,138 @@
+import {assert} from 'chai';
+import {Readable, Writable} from 'stream';
+import {fromReadable, toWritable} from "../src/streams";
+import {runningInNode} from "../src/node";
+import {File} from "../src/files";
+import {array} from "../src/collections";
+import {range, sequence} from "../src/sequence";
+import {take} from "../src/transducers";
+
+function tick(): Promise<void> {
+    return new Promise<void>(resolve => setTimeout(resolve, 0));
+}
+
+describe("streams", function () {
+    before(function () {
+        if (!runningInNode()) this.skip();
+    });
+
+    it('can read a stream as an AsyncIterable', async () => {
+        const chunks = await array(fromReadable<Buffer>(new File('test/example/child.txt').read()));
+        assert.equal(Buffer.concat(chunks).toString(), await new File('test/example/child.txt').content());
+    });
+
+    it('only reads ahead up to the highWaterMark while the consumer is slow', async () => {
+        let produced = 0;
+        const stream = new Readable({
+            objectMode: true,
+            highWaterMark: 2,
+            read() {
+                this.push(++produced);
+            }
+        });
+
+        const iterator = fromReadable<number>(stream)[Symbol.asyncIterator]();
+        assert.deepEqual(await iterator.next(), {value: 1, done: false});
+        await tick();
+        await tick();
+        assert.isAtMost(produced, 4);
+        await iterator.return!();
+        assert.isTrue((stream as any).destroyed);
+    });
+
+    it('does not wait on a stream that has already ended or been destroyed', async () => {
+        const ended = new Readable({
+            read() {
+                this.push(null);
+            }
+        });
+        ended.resume();
+        await new Promise(resolve => ended.on('end', resolve));
+        assert.deepEqual(await array(fromReadable(ended)), []);
+
+        const destroyed = new Readable({
+            read() {
+            }
+        });
+        destroyed.destroy();
+        assert.deepEqual(await array(fromReadable(destroyed)), []);
+    });
+
+    it('ends when the stream is destroyed while waiting for more', async () => {
+        const stream = new Readable({
+            objectMode: true,
+            read() {
+            }
+        });
+        stream.push(1);
+        tick().then(() => stream.destroy());
+        assert.deepEqual(await array(fromReadable<number>(stream)), [1]);
+    });
+
+    it('propagates stream errors', async () => {
+        const error = new Error("failed");
+        const stream = new Readable({
+            read() {
+                this.emit('error', error);
+            }
+        });
+        try {
+            await array(fromReadable(stream));
+            assert.fail();
+        } catch (e) {
+            assert.equal(e, error);
+        }
+    });
+
+    it('only pulls from the source once the stream has drained', async () => {
+        let pulled = 0, written = 0, maximum = 0;
+        const stream = new Writable({
+            objectMode: true,
+            highWaterMark: 2,
+            write(chunk: any, encoding: string, callback: (error?: Error) => void) {
+                setTimeout(() => {
+                    written++;
+                    callback();
+                }, 0);
+            }
+        });
+        const source = sequence(range(1), take(10)).map(n => {
+            pulled++;
+            maximum = Math.max(maximum, pulled - written);
+            return n;
+        });
+
+        await toWritable(source, stream);
+        assert.equal(written, 10);
+        assert.isAtMost(maximum, 3);
+    });
+
+    it('stops writing and closes the source when the stream is destroyed', async () => {
+        let closed = false;
+        async function* source(): AsyncIterable<number> {
+            try {
+                yield* range(1);
+            } finally {
+                closed = true;
+            }
+        }
+        const stream = new Writable({
+            objectMode: true,
+            highWaterMark: 1,
+            write(chunk: any, encoding: string, callback: (error?: Error) => void) {
+            }
+        });
+
+        const written = toWritable(source(), stream);
+        await tick();
+        stream.destroy();
+        await written;
+        assert.isTrue(closed);
+    });
+
+    it('can write a sequence to a file', async () => {
+        const file = File.tempDirectory.child('streams.txt');
+        await toWritable(sequence(['a', 'b', 'c']), file.write());
+        assert.equal(await file.content(), 'abc');
+    });
+});
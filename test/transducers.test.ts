@@ -1,28 +1,69 @@
 import { assert } from 'chai';
 import {
+    bufferTime,
+    catchError,
+    compose,
+    constantBackoff,
+    debounce,
     dedupe,
     drop,
     dropWhile,
     filter,
     find,
     first,
+    flatMap,
+    fuse,
+    FusedTransducer,
+    groupBy,
     intoArray,
     last,
     map,
+    mapAsync,
+    onComplete,
+    partitionBy,
+    recover,
     reduce,
     reject,
+    retry,
+    sample,
     scan,
     sort,
+    SortTransducer,
     take,
+    TakeTransducer,
     takeWhile,
+    throttle,
+    Transducer,
     windowed,
     zip
 } from "../src/transducers";
-import { range, repeat } from "../src/sequence";
-import { sum } from "../src/numbers";
-import { assertSync } from "./collections.test";
+import { defer, range, repeat, sequence } from "../src/sequence";
+import { increment, sum } from "../src/numbers";
+import { assertAsync, assertAsyncThrows, assertSync, asyncIterable } from "./collections.test";
 import { array, ascending, by, Comparator, comparators, descending } from "../src/collections";
 import { characters } from "../src/characters";
+import { delay, VirtualScheduler } from "../src/scheduler";
+
+export function* timed<T>(scheduler: VirtualScheduler, events: [number, T][]): Iterable<T> {
+    for (const [time, value] of events) {
+        scheduler.advance(time - scheduler.now());
+        yield value;
+    }
+}
+
+export async function* asyncTimed<T>(scheduler: VirtualScheduler, events: [number, T][]): AsyncIterable<T> {
+    for (const [time, value] of events) {
+        await delay(time - scheduler.now(), scheduler);
+        yield value;
+    }
+}
+
+async function assertTimed<T>(transducer: (scheduler: VirtualScheduler) => Transducer<T, any>, events: [number, T][], ...expected: any[]) {
+    const syncScheduler = new VirtualScheduler();
+    assertSync(transducer(syncScheduler).sync(timed(syncScheduler, events)), ...expected);
+    const asyncScheduler = new VirtualScheduler();
+    await assertAsync(transducer(asyncScheduler).async_(asyncTimed(asyncScheduler, events)), ...expected);
+}
 
 
 describe("Transducer", () => {
@@ -44,6 +85,137 @@ describe("Transducer", () => {
         assertSync(map(n => n.toString()).sync([2]), "2");
     });
 
+    it("can map asynchronously preserving input order", async () => {
+        const scheduler = new VirtualScheduler();
+        await assertAsync(mapAsync((n: number) => delay(n, scheduler).then(() => n), {concurrency: 3})
+            .async_(asyncIterable(30, 10, 25)), 30, 10, 25);
+    });
+
+    it("can map asynchronously in completion order", async () => {
+        const scheduler = new VirtualScheduler();
+        await assertAsync(mapAsync((n: number) => delay(n, scheduler).then(() => n), {concurrency: 2, ordered: false})
+            .async_(asyncIterable(30, 10, 25)), 10, 30, 25);
+    });
+
+    it("map asynchronously never runs more than the concurrency limit", async () => {
+        const scheduler = new VirtualScheduler();
+        let running = 0, maximum = 0;
+        const mapper = async (n: number) => {
+            maximum = Math.max(maximum, ++running);
+            await delay(n, scheduler);
+            running--;
+            return n;
+        };
+        await assertAsync(mapAsync(mapper, {concurrency: 2}).async_(asyncIterable(5, 1, 4, 2, 3)), 5, 1, 4, 2, 3);
+        assert.equal(maximum, 2);
+    });
+
+    it("map asynchronously rejects with the mapper error", async () => {
+        const error = new Error("failed");
+        await assertAsyncThrows(mapAsync((n: number) => n == 2 ? Promise.reject(error) : Promise.resolve(n), {concurrency: 2})
+            .async_(asyncIterable(1, 2, 3)), error);
+    });
+
+    it("can catch errors and switch to a fallback", async () => {
+        const error = new Error("failed");
+        function* failing(): Iterable<number> {
+            yield 1;
+            yield 2;
+            throw error;
+        }
+        async function* asyncFailing(): AsyncIterable<number> {
+            yield* failing();
+        }
+
+        assertSync(catchError<number>(e => e === error ? [9] : []).sync(failing()), 1, 2, 9);
+        await assertAsync(catchError<number>(() => asyncIterable(9)).async_(asyncFailing()), 1, 2, 9);
+        assertSync(sequence([1, 2, 3], map((n: number) => {
+            if (n == 3) throw error;
+            return n;
+        }), catchError<number>(() => [0])), 1, 2, 0);
+        assert.throws(() => array(catchError<number>(() => asyncIterable(9)).sync(failing())), Error, "Unsupported operation exception");
+    });
+
+    it("can retry a failing source", async () => {
+        const scheduler = new VirtualScheduler();
+        let attempts = 0;
+        const source = defer(async function* () {
+            attempts++;
+            yield attempts;
+            if (attempts < 3) throw new Error("failed");
+        });
+
+        await assertAsync(sequence(source, retry(2, constantBackoff(100), scheduler)), 1, 2, 3);
+        assert.equal(attempts, 3);
+        assert.equal(scheduler.now(), 200);
+    });
+
+    it("retry restarts the stages before it", async () => {
+        const failOnce = () => {
+            let failed = false;
+            return (n: number) => {
+                if (n == 2 && !failed) {
+                    failed = true;
+                    throw new Error("failed");
+                }
+                return n * 10;
+            };
+        };
+
+        assertSync(sequence([1, 2, 3], map(failOnce()), retry(2)), 10, 10, 20, 30);
+        let attempts = 0;
+        const source = defer(() => {
+            attempts++;
+            return asyncIterable(1, 2, 3);
+        });
+        await assertAsync(sequence(source, map(failOnce()), retry(2, constantBackoff(0), new VirtualScheduler())), 10, 10, 20, 30);
+        assert.equal(attempts, 2);
+    });
+
+    it("retry rethrows when the source cannot be restarted", async () => {
+        const error = new Error("failed");
+        function* failing(): Iterable<number> {
+            yield 1;
+            throw error;
+        }
+        async function* asyncFailing(): AsyncIterable<number> {
+            yield* failing();
+        }
+
+        assert.throws(() => array(retry(2).sync(failing())), Error, "failed");
+        await assertAsyncThrows(retry<number>(2, constantBackoff(0), new VirtualScheduler()).async_(asyncFailing()), error);
+        assert.throws(() => array(sequence(failing(), map((n: number) => n * 10), retry(2))), Error, "failed");
+        await assertAsyncThrows(sequence(asyncFailing(), map((n: number) => n * 10), retry(2, constantBackoff(0), new VirtualScheduler())), error);
+    });
+
+    it("retry gives up after the number of retries", async () => {
+        const error = new Error("failed");
+        let attempts = 0;
+        const failing = {
+            * [Symbol.iterator](): Iterator<number> {
+                attempts++;
+                throw error;
+            }
+        };
+
+        assert.throws(() => array(retry(2).sync(failing)), Error, "failed");
+        assert.equal(attempts, 3);
+        await assertAsyncThrows(sequence(defer(() => failing), retry(1, constantBackoff(0), new VirtualScheduler())), error);
+    });
+
+    it("can recover a failing element", async () => {
+        const parse = (value: string) => {
+            const result = parseInt(value);
+            if (isNaN(result)) throw new Error(`Not a number: ${value}`);
+            return result;
+        };
+        assertSync(recover(parse, () => -1).sync(['1', 'a', '3']), 1, -1, 3);
+        await assertAsync(recover((value: string) => value == 'a' ? Promise.reject(new Error()) : Promise.resolve(parseInt(value)), () => -1)
+            .async_(asyncIterable('1', 'a', '3')), 1, -1, 3);
+        assert.throws(() => array(recover((value: string) => Promise.resolve(parseInt(value)), () => -1).sync(['1'])),
+            Error, "Unsupported operation exception");
+    });
+
     it("can filter", () => {
         assertSync(filter<number>(n => n % 2 == 0).sync([0, 1, 2, 3, 4]), 0, 2, 4);
     });
@@ -110,6 +282,46 @@ describe("Transducer", () => {
         assert.deepEqual(array(range(1), windowed(3, 4), take(3)), [[1, 2, 3], [5, 6, 7], [9, 10, 11]]);
     });
 
+    it("can group by a key", async () => {
+        assertSync(groupBy((n: number) => n % 3).sync([1, 2, 3, 4, 5, 6, 7]), [1, [1, 4, 7]], [2, [2, 5]], [0, [3, 6]]);
+        assertSync(groupBy((n: number) => n % 3).sync([]));
+        await assertAsync(groupBy((n: number) => n % 3).async_(asyncIterable(1, 2, 3, 4, 5, 6, 7)), [1, [1, 4, 7]], [2, [2, 5]], [0, [3, 6]]);
+    });
+
+    it("can partition by a key every time it changes", async () => {
+        assertSync(partitionBy<number, boolean>(n => n % 2 == 0).sync([1, 3, 2, 4, 6, 5, 7]), [false, [1, 3]], [true, [2, 4, 6]], [false, [5, 7]]);
+        assertSync(partitionBy<number, boolean>(n => n % 2 == 0).sync([]));
+        await assertAsync(partitionBy<number, boolean>(n => n % 2 == 0).async_(asyncIterable(1, 3, 2, 4, 6, 5, 7)), [false, [1, 3]], [true, [2, 4, 6]], [false, [5, 7]]);
+    });
+
+    it("partition by is lazy so supports infinite sequences", function () {
+        assert.deepEqual(array(range(1), partitionBy(n => Math.floor(n / 3)), take(2)), [[0, [1, 2]], [1, [3, 4, 5]]]);
+    });
+
+    it("can buffer by time", async () => {
+        await assertTimed(s => bufferTime(100, s),
+            [[0, 1], [10, 2], [20, 3], [120, 4], [130, 5], [250, 6]],
+            [1, 2, 3], [4, 5], [6]);
+    });
+
+    it("can debounce", async () => {
+        await assertTimed(s => debounce(50, s),
+            [[0, 1], [10, 2], [20, 3], [100, 4], [200, 5], [220, 6]],
+            3, 4, 6);
+    });
+
+    it("can throttle", async () => {
+        await assertTimed(s => throttle(50, s),
+            [[0, 1], [10, 2], [20, 3], [60, 4], [70, 5], [200, 6]],
+            1, 4, 6);
+    });
+
+    it("can sample", async () => {
+        await assertTimed(s => sample(50, s),
+            [[0, 1], [10, 2], [60, 3], [70, 4], [160, 5], [230, 6]],
+            2, 4, 5);
+    });
+
     it("can sort by property of object", async () => {
         class Cat {
             constructor(public name: string, public age: number) {
@@ -165,4 +377,193 @@ describe("Transducer", () => {
     //     assert.instanceOf(scan, ScanTransducer);
     //     assert.instanceOf(take, TakeTransducer);
     // });
-});
\ No newline at end of file
+});
+
+function builtIns(scheduler: VirtualScheduler): { [name: string]: Transducer<number, any> } {
+    return {
+        take: take(3),
+        drop: drop(3),
+        first: first(),
+        last: last(),
+        map: map((n: number) => n * 2),
+        flatMap: flatMap((n: number) => [n, n]),
+        filter: filter((n: number) => n % 2 == 0),
+        find: find((n: number) => n > 2),
+        scan: scan(sum),
+        reduce: reduce(sum),
+        takeWhile: takeWhile((n: number) => n < 4),
+        dropWhile: dropWhile((n: number) => n < 4),
+        sort: sort(descending),
+        dedupe: dedupe(),
+        windowed: windowed(2),
+        groupBy: groupBy((n: number) => n % 2),
+        partitionBy: partitionBy((n: number) => n < 3),
+        bufferTime: bufferTime(10, scheduler),
+        debounce: debounce(10, scheduler),
+        throttle: throttle(10, scheduler),
+        sample: sample(10, scheduler),
+        onComplete: onComplete(() => undefined),
+    };
+}
+
+const values = [1, 2, 3, 4, 5, 5, 6];
+
+describe("Transducer fusion", () => {
+    function unfused<T>(source: Iterable<any>, ...transducers: Transducer<any, any>[]): T[] {
+        return array(transducers.reduce((r, t) => t.sync(r), source));
+    }
+
+    it("fuses neighbouring map, filter, take and drop transducers", () => {
+        const [fused, sorted, single] = fuse([map(increment), compose(filter((n: number) => n > 2), drop(1)), sort(), take(2)]);
+        assert.instanceOf(fused, FusedTransducer);
+        assert.equal((fused as FusedTransducer<number, number>).transducers.length, 3);
+        assert.instanceOf(sorted, SortTransducer);
+        assert.instanceOf(single, TakeTransducer);
+    });
+
+    it("gives the same results as the unfused transducers", async () => {
+        const pipelines: Transducer<any, any>[][] = [
+            [map(increment), filter((n: number) => n % 3 == 0), take(4)],
+            [drop(3), map((n: number) => n * 2), take(0)],
+            [filter((n: number) => n > 5), take(3), map(increment), drop(1)],
+            [take(5), filter((n: number) => n % 2 == 0), drop(10)],
+            [drop(2), drop(2), take(20), take(3)],
+        ];
+        for (const pipeline of pipelines) {
+            const expected = unfused(range(1, 30), ...pipeline);
+            assert.deepEqual(array(fuse(pipeline)[0].sync(range(1, 30))), expected);
+            assert.deepEqual(await array(fuse(pipeline)[0].async_(asyncIterable(...range(1, 30)))), expected);
+        }
+    });
+
+    it("stops pulling from the source as soon as take is satisfied", () => {
+        let pulled = 0;
+        const source = repeat(() => ++pulled);
+        assertSync(sequence(source, map(increment), filter((n: number) => n % 2 == 0), take(2), map(increment)), 3, 5);
+        assert.equal(pulled, 3);
+    });
+});
+
+describe("Transducer reuse", () => {
+    const transducers = builtIns(new VirtualScheduler());
+
+    for (const name of Object.keys(transducers)) {
+        const transducer = transducers[name];
+
+        it(`${name} gives the same result when iterated twice`, async () => {
+            assert.deepEqual(array(transducer.sync(values)), array(transducer.sync(values)));
+            assert.deepEqual(await array(transducer.async_(asyncIterable(...values))), await array(transducer.async_(asyncIterable(...values))));
+            assert.deepEqual(await array(transducer.async_(asyncIterable(...values))), array(transducer.sync(values)));
+        });
+    }
+
+    it("zip gives the same result when iterated twice", () => {
+        const transducer = zip(['a', 'b', 'c']);
+        assert.deepEqual(array(transducer.sync(values)), array(transducer.sync(values)));
+    });
+
+    it("mapAsync gives the same result when iterated twice", async () => {
+        const transducer = mapAsync((n: number) => Promise.resolve(n * 2), {concurrency: 2});
+        assert.deepEqual(await array(transducer.async_(asyncIterable(...values))), await array(transducer.async_(asyncIterable(...values))));
+    });
+
+    it("a stored sequence can be iterated more than once", () => {
+        const stored = sequence(values, drop(1), take(3));
+        assert.deepEqual(array(stored), [2, 3, 4]);
+        assert.deepEqual(array(stored), [2, 3, 4]);
+    });
+});
+
+describe("Transducer cleanup", () => {
+    function* tracked(closed: { value: boolean }): Iterable<number> {
+        try {
+            yield* values;
+        } finally {
+            closed.value = true;
+        }
+    }
+
+    async function* asyncTracked(closed: { value: boolean }): AsyncIterable<number> {
+        try {
+            yield* values;
+        } finally {
+            closed.value = true;
+        }
+    }
+
+    function tick(): Promise<void> {
+        return new Promise<void>(resolve => setTimeout(resolve, 0));
+    }
+
+    const syncTransducers: { [name: string]: Transducer<number, any> } = {...builtIns(new VirtualScheduler()), zip: zip(['a', 'b', 'c'])};
+    for (const name of Object.keys(syncTransducers)) {
+        const transducer = syncTransducers[name];
+
+        it(`${name} closes the source when the consumer stops early`, () => {
+            const closed = {value: false};
+            const iterator = transducer.sync(tracked(closed))[Symbol.iterator]();
+            iterator.next();
+            iterator.return!();
+            assert.isTrue(closed.value);
+        });
+
+        it(`${name} closes the source when the consumer throws`, () => {
+            const closed = {value: false};
+            const error = new Error("stop");
+            const iterator = transducer.sync(tracked(closed))[Symbol.iterator]();
+            iterator.next();
+            assert.throws(() => iterator.throw!(error), Error, "stop");
+            assert.isTrue(closed.value);
+        });
+    }
+
+    const asyncTransducers = () => ({
+        ...builtIns(new VirtualScheduler()),
+        zip: zip(asyncIterable('a', 'b', 'c')),
+        mapAsync: mapAsync((n: number) => Promise.resolve(n), {concurrency: 2})
+    } as { [name: string]: Transducer<number, any> });
+    for (const name of Object.keys(asyncTransducers())) {
+        it(`${name} closes the async source when the consumer stops early`, async () => {
+            const closed = {value: false};
+            const iterator = asyncTransducers()[name].async_(asyncTracked(closed))[Symbol.asyncIterator]();
+            await iterator.next();
+            await iterator.return!();
+            await tick();
+            assert.isTrue(closed.value);
+        });
+    }
+
+    it("onComplete runs when the source is exhausted", async () => {
+        let called = 0;
+        assertSync(onComplete<number>(() => {
+            called++;
+        }).sync([1, 2]), 1, 2);
+        await assertAsync(onComplete<number>(async () => {
+            await Promise.resolve();
+            called++;
+        }).async_(asyncIterable(1, 2)), 1, 2);
+        assert.equal(called, 2);
+    });
+
+    it("onComplete runs when the consumer stops early", () => {
+        let called = false;
+        assertSync(sequence(range(1), onComplete(() => {
+            called = true;
+        }), take(2)), 1, 2);
+        assert.isTrue(called);
+    });
+
+    it("onComplete runs when the source fails", async () => {
+        let called = false;
+        const error = new Error("failed");
+        async function* failing(): AsyncIterable<number> {
+            yield 1;
+            throw error;
+        }
+
+        await assertAsyncThrows(onComplete<number>(() => {
+            called = true;
+        }).async_(failing()), error);
+        assert.isTrue(called);
+    });
+});
@@ -1,6 +1,7 @@
 import {assert} from 'chai';
-import {DEFAULT_COMPARATOR, PrefixTree, Row, Trie} from "../src/trie";
+import {CountingPrefixTree, DEFAULT_COMPARATOR, MultiPrefixTree, PrefixTree, Row, SuffixIndex, Trie} from "../src/trie";
 import {characters} from "../src/characters";
+import {array} from "../src/collections";
 
 describe("Trie", function () {
     it('supports isEmpty', function () {
@@ -49,6 +50,48 @@ describe("Trie", function () {
         const trie = new Trie().insert(['a'], 'valueA').insert(['a', 'b'], 'valueB').insert(['c', 'a', 'd'], 'valueB');
         assert.deepEqual(trie.keys, ['a', 'b', 'c', 'd']);
     });
+
+    it('prunes empty branches on delete', function () {
+        const trie = new Trie<string, string>().insert(['a', 'b', 'c'], 'abc').insert(['a'], 'a');
+        const deleted = trie.delete(['a', 'b', 'c']);
+        assert.isUndefined(deleted.lookup(['a', 'b', 'c']));
+        assert.equal(deleted.lookup(['a']), 'a');
+        assert.equal(deleted.height, 1);
+        assert.isTrue(deleted.delete(['a']).isEmpty);
+        assert.isTrue(deleted.delete(['a']).children.isEmpty);
+        assert.equal(trie.delete(['a', 'b']), trie);
+        assert.equal(trie.delete(['x']), trie);
+    });
+
+    it('supports falsy values', function () {
+        const trie = new Trie<string, number | string>().insert(['a'], 0).insert(['b'], '');
+        assert.isFalse(trie.isEmpty);
+        assert.isFalse(new Trie<string, number>().insert([], 0).isEmpty);
+        assert.isTrue(trie.contains(['a']));
+        assert.isTrue(trie.contains(['b']));
+        assert.equal(trie.lookup(['a']), 0);
+        assert.deepEqual(trie.match([]), [0, '']);
+        assert.isTrue(trie.delete(['a']).delete(['b']).isEmpty);
+    });
+
+    it('can be serialised to JSON and back', function () {
+        const trie = new Trie<string, number>().insert(['a'], 4).insert(['a', 'b'], 1).insert(['c'], 2);
+        const json = JSON.parse(JSON.stringify(trie));
+        assert.deepEqual(json, {children: [['a', {value: 4, children: [['b', {value: 1}]]}], ['c', {value: 2}]]});
+        const loaded = Trie.fromJSON<string, number>(json);
+        assert.equal(loaded.lookup(['a', 'b']), 1);
+        assert.deepEqual(loaded.match([]), trie.match([]));
+        assert.deepEqual(loaded.insert(['b'], 3).match([]), [4, 1, 3, 2]);
+    });
+
+    it('handles very long keys without deep recursion', function () {
+        const key: number[] = [];
+        for (let i = 0; i < 20000; i++) key.push(i % 7);
+        const trie = new Trie<number, string>().insert(key, 'long').insert(key.slice(0, 10), 'short');
+        assert.equal(trie.lookup(key), 'long');
+        assert.deepEqual(trie.match(key.slice(0, 5)), ['short', 'long']);
+        assert.isUndefined(trie.lookup(key.concat([9])));
+    });
 });
 
 describe("PrefixTree", function () {
@@ -88,6 +131,12 @@ describe("PrefixTree", function () {
         assert.deepEqual(trie.delete(valueA).delete(valueB).match(""), []);
     });
 
+    it('does not keep deleted branches around', function () {
+        const trie = new PrefixTree().insert('valueA');
+        assert.isTrue(trie.delete('valueA').isEmpty);
+        assert.equal(trie.delete('valueA').height, 0);
+    });
+
     it('value can be a different type', function () {
         const trie = new PrefixTree<number>()
             .insert("январь", 1)
@@ -127,6 +176,32 @@ describe("PrefixTree", function () {
         assert.deepEqual(b, {value: 'Hotel AB', distance: 2});
     });
 
+    describe('search', function () {
+        const cities = ['London', 'Lisbon', 'Lima', 'Leeds', 'Paris', 'Londonderry'].reduce((t, city) => t.insert(city), new PrefixTree());
+
+        it('counts transpositions as a single edit', function () {
+            assert.deepEqual(cities.search('Lodnon', 1), [{value: 'London', distance: 1}]);
+            assert.deepEqual(cities.search('Lodnon', 1, {transpositions: false}), []);
+            assert.deepEqual(cities.search('Lodnon', 2, {transpositions: false}), [{value: 'London', distance: 2}]);
+        });
+
+        it('sorts results by distance, then by key', function () {
+            assert.deepEqual(cities.search('Lida', 4).map(r => r.value), ['Lima', 'Leeds', 'Lisbon', 'London']);
+        });
+
+        it('supports a limit', function () {
+            assert.deepEqual(cities.search('Lida', 4, {limit: 2}), [{value: 'Lima', distance: 1}, {value: 'Leeds', distance: 3}]);
+            assert.deepEqual(cities.search('Lida', 4, {limit: 3}).map(r => r.value), ['Lima', 'Leeds', 'Lisbon']);
+            assert.deepEqual(cities.search('Lida', 4, {limit: 0}), []);
+        });
+
+        it('can match a misspelt prefix', function () {
+            assert.deepEqual(cities.search('Lodn', 1), []);
+            assert.deepEqual(cities.search('Lodn', 1, {prefix: true}), [{value: 'London', distance: 1}, {value: 'Londonderry', distance: 1}]);
+            assert.deepEqual(cities.search('Lodn', 1, {prefix: true, limit: 1}), [{value: 'London', distance: 1}]);
+        });
+    });
+
     it('the default search ignores case and language specific accents', function () {
         // https://github.com/hiddentao/fast-levenshtein/issues/7
         const trie = new PrefixTree()
@@ -139,6 +214,41 @@ describe("PrefixTree", function () {
         assert.deepEqual(b, {value: 'Vikhaklovitch', distance: 3});
     });
 
+    describe('complete', function () {
+        const frequencies: { [city: string]: number } = {'London': 9, 'Lisbon': 7, 'Lima': 7, 'Leeds': 3, 'Paris': 8};
+        const cities = Object.keys(frequencies).reduce((t, city) => t.insert(city), new PrefixTree());
+
+        it('returns values under the prefix in key order', function () {
+            assert.deepEqual(array(cities.complete('l')), ['Leeds', 'Lima', 'Lisbon', 'London']);
+            assert.deepEqual(array(cities.complete('l', {limit: 2})), ['Leeds', 'Lima']);
+            assert.deepEqual(array(cities.complete('x')), []);
+        });
+
+        it('returns the top values by score', function () {
+            const score = (city: string) => frequencies[city];
+            assert.deepEqual(array(cities.complete('l', {score})), ['London', 'Lima', 'Lisbon', 'Leeds']);
+            assert.deepEqual(array(cities.complete('l', {score, limit: 2})), ['London', 'Lima']);
+            assert.deepEqual(array(cities.complete('', {score, limit: 3})), ['London', 'Paris', 'Lima']);
+        });
+
+        it('walks lazily so callers can stop early', function () {
+            let found = 0;
+            for (const city of cities.complete('l')) {
+                found++;
+                break;
+            }
+            assert.equal(found, 1);
+        });
+    });
+
+    it('can be serialised to JSON and loaded with a converter and comparator', function () {
+        const trie = new PrefixTree<number>().insert('January', 1).insert('June', 6);
+        const loaded = PrefixTree.fromJSON<number>(JSON.parse(JSON.stringify(trie)));
+        assert.deepEqual(loaded.match('j'), [1, 6]);
+        assert.equal(loaded.lookup('june'), 6);
+        assert.deepEqual(loaded.search('Jnue', 2), trie.search('Jnue', 2));
+    });
+
     it('the default match also ignores case and language specific accents', function () {
         const trie = new PrefixTree()
             .insert("Mikhaïlovitch")
@@ -149,6 +259,86 @@ describe("PrefixTree", function () {
 
 });
 
+describe("MultiPrefixTree", function () {
+    const tree = new MultiPrefixTree<number>().insert('May', 5).insert('may', 50).insert('March', 3);
+
+    it('keeps every value inserted under a key', function () {
+        assert.deepEqual(tree.lookup('MAY'), [5, 50]);
+        assert.deepEqual(tree.lookup('June'), []);
+        assert.deepEqual(tree.match('ma'), [3, 5, 50]);
+        assert.isTrue(tree.contains('march'));
+    });
+
+    it('can delete a single value or the whole key', function () {
+        assert.deepEqual(tree.delete('May', 5).lookup('may'), [50]);
+        assert.isFalse(tree.delete('May').contains('may'));
+        assert.isTrue(tree.delete('May', 5).delete('May', 50).delete('March').isEmpty);
+    });
+
+    it('merges by concatenating values', function () {
+        const other = new MultiPrefixTree<number>().insert('May', 500).insert('June', 6);
+        assert.deepEqual(tree.merge(other).match(''), [6, 3, 5, 50, 500]);
+    });
+});
+
+describe("CountingPrefixTree", function () {
+    const tags = ['java', 'javascript', 'Java', 'json', 'javascript', 'java'].reduce((t, tag) => t.insert(tag), new CountingPrefixTree());
+
+    it('counts each key', function () {
+        assert.equal(tags.count('JAVA'), 3);
+        assert.equal(tags.count('python'), 0);
+        assert.deepEqual(tags.match('ja'), [['java', 3], ['javascript', 2]]);
+    });
+
+    it('completes with the most frequent keys first', function () {
+        assert.deepEqual(array(tags.complete('j', 2)), [['java', 3], ['javascript', 2]]);
+    });
+
+    it('decrements on delete and removes keys reaching zero', function () {
+        assert.equal(tags.delete('java').count('java'), 0);
+        assert.equal(tags.delete('java', 2).count('java'), 1);
+        assert.isFalse(tags.delete('json', 1).contains('json'));
+        assert.equal(tags.delete('python'), tags);
+    });
+
+    it('merges by adding counts', function () {
+        const other = new CountingPrefixTree().insert('java', 10).insert('go');
+        const merged = tags.merge(other);
+        assert.equal(merged.count('java'), 13);
+        assert.equal(merged.count('go'), 1);
+    });
+});
+
+describe("SuffixIndex", function () {
+    const cities = ['New York', 'York', 'Yorkshire', 'Zürich', 'Newark'].reduce((t, city) => t.insert(city), new SuffixIndex());
+
+    it('finds keys containing the query anywhere', function () {
+        assert.sameMembers(cities.match('york'), ['New York', 'York', 'Yorkshire']);
+        assert.sameMembers(cities.match('ew'), ['New York', 'Newark']);
+        assert.deepEqual(cities.match('paris'), []);
+    });
+
+    it('finds keys ending with the query', function () {
+        assert.sameMembers(cities.endsWith('york'), ['New York', 'York']);
+    });
+
+    it('ignores case and accents with the default comparator', function () {
+        assert.deepEqual(cities.match('URICH'), ['Zürich']);
+    });
+
+    it('only returns each value once', function () {
+        const index = new SuffixIndex<number>().insert('banana', 1).insert('ananas', 2);
+        assert.sameMembers(index.match('ana'), [1, 2]);
+        assert.equal(index.match('ana').length, 2);
+    });
+
+    it('supports delete', function () {
+        const deleted = cities.delete('York');
+        assert.sameMembers(deleted.match('york'), ['New York', 'Yorkshire']);
+        assert.isTrue(['New York', 'Yorkshire', 'Zürich', 'Newark'].reduce((t, city) => t.delete(city), deleted).isEmpty);
+    });
+});
+
 describe("Row", function () {
     it('matches the wikipedia example for kitten vs sitting', function () {
         /*